@@ -1,4 +1,4 @@
-import { PartitionedBuffer, type Schema } from "../mod.ts";
+import { PartitionedBuffer, type PartitionSpec, type Schema } from "../mod.ts";
 
 type Position = { x: number; y: number };
 type Velocity = { vx: number; vy: number };
@@ -11,6 +11,11 @@ const velocitySchema: Schema<Velocity> = { vx: Float32Array, vy: Float32Array };
 const lifeSchema: Schema<Life> = { current: Float32Array, total: Float32Array };
 const metaSchema: Schema<Meta> = { kind: Uint8Array, color: Uint8Array, glyph: Uint16Array };
 
+const positionSpec: PartitionSpec<Position> = { name: "position", schema: positionSchema };
+const velocitySpec: PartitionSpec<Velocity> = { name: "velocity", schema: velocitySchema };
+const lifeSpec: PartitionSpec<Life> = { name: "life", schema: lifeSchema };
+const metaSpec: PartitionSpec<Meta> = { name: "meta", schema: metaSchema };
+
 function nowSeconds(): number {
   return Date.now() / 1000;
 }
@@ -59,16 +64,12 @@ class FireworksDemo {
     this.#width = width;
     this.#height = height - 5; // reserve rows for HUD
 
-    // Compute conservative buffer size per particle
-    const estimatedBytesPerParticle = 64;
-    const bufferSize = Math.ceil(maxParticles * estimatedBytesPerParticle);
-
-    this.#buffer = new PartitionedBuffer(bufferSize, maxParticles);
-
-    this.#buffer.addPartition<Position>({ name: "position", schema: positionSchema });
-    this.#buffer.addPartition<Velocity>({ name: "velocity", schema: velocitySchema });
-    this.#buffer.addPartition<Life>({ name: "life", schema: lifeSchema });
-    this.#buffer.addPartition<Meta>({ name: "meta", schema: metaSchema });
+    // Allocate exactly enough space for every particle's partitions
+    const { buffer } = PartitionedBuffer.fromSpecs(
+      { position: positionSpec, velocity: velocitySpec, life: lifeSpec, meta: metaSpec },
+      maxParticles,
+    );
+    this.#buffer = buffer;
   }
 
   get activeParticles(): number {
@@ -138,23 +139,6 @@ class FireworksDemo {
     }
   }
 
-  #moveParticle(fromIndex: number, toIndex: number): void {
-    const pos = this.#buffer.getPartition<Position>("position")!;
-    const vel = this.#buffer.getPartition<Velocity>("velocity")!;
-    const life = this.#buffer.getPartition<Life>("life")!;
-    const meta = this.#buffer.getPartition<Meta>("meta")!;
-
-    pos.partitions.x[toIndex] = pos.partitions.x[fromIndex]!;
-    pos.partitions.y[toIndex] = pos.partitions.y[fromIndex]!;
-    vel.partitions.vx[toIndex] = vel.partitions.vx[fromIndex]!;
-    vel.partitions.vy[toIndex] = vel.partitions.vy[fromIndex]!;
-    life.partitions.current[toIndex] = life.partitions.current[fromIndex]!;
-    life.partitions.total[toIndex] = life.partitions.total[fromIndex]!;
-    meta.partitions.kind[toIndex] = meta.partitions.kind[fromIndex]!;
-    meta.partitions.color[toIndex] = meta.partitions.color[fromIndex]!;
-    meta.partitions.glyph[toIndex] = meta.partitions.glyph[fromIndex]!;
-  }
-
   update(deltaTime: number): void {
     const g = 28; // gravity (rows/sec^2)
     const air = 0.99; // simple damping
@@ -235,7 +219,7 @@ class FireworksDemo {
       }
 
       if (i !== aliveCount) {
-        this.#moveParticle(i, aliveCount);
+        this.#buffer.copyEntity(i, aliveCount);
       }
       aliveCount++;
     }
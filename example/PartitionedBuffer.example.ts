@@ -1,4 +1,4 @@
-import { PartitionedBuffer, type Schema } from "../mod.ts";
+import { PartitionedBuffer, type PartitionSpec, type Schema } from "../mod.ts";
 
 // Define our particle properties
 type Position = { x: number; y: number };
@@ -31,27 +31,20 @@ class ParticleSystem {
   constructor(maxParticles: number) {
     this.#maxParticles = maxParticles;
 
-    // Create buffer with generous space - PartitionedBuffer will calculate exact requirements
-    // Each schema property gets 8-byte alignment, so estimate conservatively
-    const estimatedBytesPerParticle = 64; // Conservative estimate for all properties with alignment
-    const bufferSize = maxParticles * estimatedBytesPerParticle;
+    const position: PartitionSpec<Position> = { name: "position", schema: positionSchema };
+    const velocity: PartitionSpec<Velocity> = { name: "velocity", schema: velocitySchema };
+    const color: PartitionSpec<Color> = { name: "color", schema: colorSchema };
+    const life: PartitionSpec<Life> = { name: "life", schema: lifeSchema };
 
-    // Alternative: Calculate exact size requirements (more advanced)
-    // import { getEntitySize } from "../src/Schema.ts";
-    // const positionSize = getEntitySize(positionSchema) * maxParticles;
-    // const velocitySize = getEntitySize(velocitySchema) * maxParticles;
-    // const colorSize = getEntitySize(colorSchema) * maxParticles;
-    // const lifeSize = getEntitySize(lifeSchema) * maxParticles;
-    // const bufferSize = positionSize + velocitySize + colorSize + lifeSize + 1024; // Extra padding
-
-    // Create buffer with space for all particles
+    // Create a buffer with exactly enough space for all particles, including each property's alignment
+    const bufferSize = PartitionedBuffer.requiredSize([position, velocity, color, life], maxParticles);
     this.#buffer = new PartitionedBuffer(bufferSize, maxParticles);
 
     // Add partitions for each property type
-    this.#buffer.addPartition<Position>({ name: "position", schema: positionSchema });
-    this.#buffer.addPartition<Velocity>({ name: "velocity", schema: velocitySchema });
-    this.#buffer.addPartition<Color>({ name: "color", schema: colorSchema });
-    this.#buffer.addPartition<Life>({ name: "life", schema: lifeSchema });
+    this.#buffer.addPartition(position);
+    this.#buffer.addPartition(velocity);
+    this.#buffer.addPartition(color);
+    this.#buffer.addPartition(life);
   }
 
   /**
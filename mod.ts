@@ -5,14 +5,158 @@
  * @module      PartitionedBuffer
  */
 
-import { Partition, type PartitionSpec, type PartitionStorage } from "./src/Partition.ts";
-import { PartitionedBuffer } from "./src/PartitionedBuffer.ts";
-import { getEntitySize, isSchema, type Schema } from "./src/Schema.ts";
-import { isValidName, type TypedArray, type TypedArrayConstructor } from "./src/utils.ts";
+import {
+  DuplicateMigrationError,
+  DuplicatePartitionError,
+  EntityOutOfBoundsError,
+  InvalidBufferOptionsError,
+  InvalidPartitionSpecError,
+  InvalidSchemaError,
+  InvalidSnapshotError,
+  MigrationDowngradeError,
+  type PartitionErrorCode,
+  PartitionNotFoundError,
+  PartitionOverflowError,
+  SchemaParseError,
+  type SchemaParseErrorOptions,
+  SparseCapacityError,
+  StringTableFullError,
+  UnsupportedSchemaError,
+  ValueRangeError,
+} from "./src/Errors.ts";
+import { type MigrateOptions, type Migration, MigrationRegistry, type MigrationValues } from "./src/Migration.ts";
+import { Partition, type PartitionSpec, type PartitionStorage, type PartitionStorages } from "./src/Partition.ts";
+import { PartitionedBuffer, type PartitionedBufferOptions } from "./src/PartitionedBuffer.ts";
+import type { PartitionedMemory } from "./src/PartitionedMemory.ts";
+import type {
+  BatchOptions,
+  BufferDescription,
+  BufferStats,
+  EntityPartitionKey,
+  PackingReport,
+  PartitionDescription,
+  PartitionedBufferLayout,
+  PartitionEntry,
+  PartitionLayout,
+  PartitionPacking,
+  PartitionPlan,
+  PartitionStats,
+  PropertyDescription,
+  PropertyLayout,
+  SparseStats,
+} from "./src/Layout.ts";
+import { Query, type QueryKey, type QuerySpec } from "./src/Query.ts";
+import {
+  type BitfieldSchemaProperty,
+  bool,
+  getEntitySize,
+  isSchema,
+  type Schema,
+  type SchemaAlignment,
+  schemaHash,
+  type SchemaLayout,
+  type SchemaProperty,
+  string,
+  type StringSchemaProperty,
+  uint,
+  type VectorSchemaProperty,
+} from "./src/Schema.ts";
+import {
+  parseSchema,
+  schemaFromJSON,
+  type SchemaJSON,
+  type SchemaJSONProperty,
+  schemaToJSON,
+} from "./src/SchemaParser.ts";
+import { SharedPartitionedBuffer } from "./src/SharedPartitionedBuffer.ts";
+import { StringTable } from "./src/StringTable.ts";
+import { TagStorage } from "./src/TagStorage.ts";
+import { isValidName, type TypedArray, type TypedArrayConstructor, type TypedArrayValue } from "./src/utils.ts";
 
 /**
  * Partition is a convenient way to define an object in a PartitionedBuffer.
  * PartitionedBuffer is a convenient way to manage a data in ArrayBuffers.
+ * SharedPartitionedBuffer manages the same data in a SharedArrayBuffer for use across workers.
+ * PartitionedMemory is the partition API both buffers share.
+ * TagStorage records which entities carry a tag partition.
+ * StringTable interns the values of string schema properties.
+ * Query iterates the entities that belong to several partitions.
+ * parseSchema and schemaFromJSON build schemas from DSL strings and JSON data files.
+ * MigrationRegistry holds the steps that migrate partition data between schema versions.
+ * PartitionOverflowError, DuplicatePartitionError and the other error classes carry a machine-readable `code`.
  */
-export { getEntitySize, isSchema, isValidName, Partition, PartitionedBuffer };
-export type { PartitionSpec, PartitionStorage, Schema, TypedArray, TypedArrayConstructor };
+export {
+  bool,
+  DuplicateMigrationError,
+  DuplicatePartitionError,
+  EntityOutOfBoundsError,
+  getEntitySize,
+  InvalidBufferOptionsError,
+  InvalidPartitionSpecError,
+  InvalidSchemaError,
+  InvalidSnapshotError,
+  isSchema,
+  isValidName,
+  MigrationDowngradeError,
+  MigrationRegistry,
+  parseSchema,
+  Partition,
+  PartitionedBuffer,
+  PartitionNotFoundError,
+  PartitionOverflowError,
+  Query,
+  schemaFromJSON,
+  schemaHash,
+  SchemaParseError,
+  schemaToJSON,
+  SharedPartitionedBuffer,
+  SparseCapacityError,
+  string,
+  StringTable,
+  StringTableFullError,
+  TagStorage,
+  uint,
+  UnsupportedSchemaError,
+  ValueRangeError,
+};
+export type {
+  BatchOptions,
+  BitfieldSchemaProperty,
+  BufferDescription,
+  BufferStats,
+  EntityPartitionKey,
+  MigrateOptions,
+  Migration,
+  MigrationValues,
+  PackingReport,
+  PartitionDescription,
+  PartitionedBufferLayout,
+  PartitionedBufferOptions,
+  PartitionedMemory,
+  PartitionEntry,
+  PartitionErrorCode,
+  PartitionLayout,
+  PartitionPacking,
+  PartitionPlan,
+  PartitionSpec,
+  PartitionStats,
+  PartitionStorage,
+  PartitionStorages,
+  PropertyDescription,
+  PropertyLayout,
+  QueryKey,
+  QuerySpec,
+  Schema,
+  SchemaAlignment,
+  SchemaJSON,
+  SchemaJSONProperty,
+  SchemaLayout,
+  SchemaParseErrorOptions,
+  SchemaProperty,
+  SparseStats,
+  StringSchemaProperty,
+  TypedArray,
+  TypedArrayConstructor,
+  TypedArrayValue,
+  VectorSchemaProperty,
+};
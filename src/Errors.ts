@@ -0,0 +1,405 @@
+/**
+ * @module      Errors
+ * @description Error classes with machine-readable codes for the failures callers can react to.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+/**
+ * The `code` of every error class in this module.
+ *
+ * Each class extends the built-in error its failure was reported with before it had a class,
+ * so `instanceof RangeError` (etc.) checks keep working.
+ */
+export type PartitionErrorCode =
+  | "DUPLICATE_MIGRATION"
+  | "DUPLICATE_PARTITION"
+  | "ENTITY_OUT_OF_BOUNDS"
+  | "INVALID_BUFFER_OPTIONS"
+  | "INVALID_PARTITION_SPEC"
+  | "INVALID_SCHEMA"
+  | "INVALID_SNAPSHOT"
+  | "MIGRATION_DOWNGRADE"
+  | "PARTITION_NOT_FOUND"
+  | "PARTITION_OVERFLOW"
+  | "SCHEMA_PARSE"
+  | "SPARSE_CAPACITY"
+  | "STRING_TABLE_FULL"
+  | "UNSUPPORTED_SCHEMA"
+  | "VALUE_RANGE";
+
+/**
+ * Thrown when a partition doesn't fit in the buffer, or a property is larger than `MAX_PARTITION_SIZE`
+ *
+ * @example ```
+ * try {
+ *   buffer.addPartition(spec);
+ * } catch (error) {
+ *   if (!(error instanceof PartitionOverflowError)) throw error;
+ *   console.warn(`${error.partitionName} needs ${error.required - error.available} more bytes`);
+ * }
+ * ```
+ */
+export class PartitionOverflowError extends RangeError {
+  override readonly name = "PartitionOverflowError";
+  readonly code = "PARTITION_OVERFLOW";
+
+  /** The partition that didn't fit */
+  readonly partitionName: string;
+
+  /** The bytes the partition needs */
+  readonly required: number;
+
+  /** The bytes available to the partition */
+  readonly available: number;
+
+  /**
+   * Create a new PartitionOverflowError
+   * @param message the error description
+   * @param details the partition and its byte counts
+   */
+  constructor(message: string, details: Pick<PartitionOverflowError, "partitionName" | "required" | "available">) {
+    super(message);
+    this.partitionName = details.partitionName;
+    this.required = details.required;
+    this.available = details.available;
+  }
+}
+
+/** Thrown when a partition is added with the name of a registered partition */
+export class DuplicatePartitionError extends Error {
+  override readonly name = "DuplicatePartitionError";
+  readonly code = "DUPLICATE_PARTITION";
+
+  /** The name that is already registered */
+  readonly partitionName: string;
+
+  /**
+   * Create a new DuplicatePartitionError
+   * @param partitionName the name that is already registered
+   */
+  constructor(partitionName: string) {
+    super(`Partition name ${partitionName} already exists`);
+    this.partitionName = partitionName;
+  }
+}
+
+/** Thrown when a partition name, spec, instance or storage property does not match a registered one */
+export class PartitionNotFoundError extends Error {
+  override readonly name = "PartitionNotFoundError";
+  readonly code = "PARTITION_NOT_FOUND";
+
+  /** The name that was looked up */
+  readonly partitionName: string;
+
+  /**
+   * Create a new PartitionNotFoundError
+   * @param partitionName the name that was looked up
+   * @param message the error description [default = "Partition <name> does not exist"]
+   */
+  constructor(partitionName: string, message = `Partition ${partitionName} does not exist`) {
+    super(message);
+    this.partitionName = partitionName;
+  }
+}
+
+/** Thrown when a sparse partition's capacity (`maxOwners`) is invalid, or it has no free dense slot for an entity */
+export class SparseCapacityError extends RangeError {
+  override readonly name = "SparseCapacityError";
+  readonly code = "SPARSE_CAPACITY";
+
+  /** The sparse partition, if known */
+  readonly partitionName: string | undefined;
+
+  /** The number of dense slots (the partition's `maxOwners`) */
+  readonly capacity: number;
+
+  /** The entity that could not be added, or `undefined` if the capacity itself is invalid */
+  readonly entity: number | undefined;
+
+  /**
+   * Create a new SparseCapacityError
+   * @param details the partition, its capacity and the entity
+   * @param message the error description [default = "Dense storage exhausted … (capacity: <capacity>)"]
+   */
+  constructor(
+    details: Pick<SparseCapacityError, "partitionName" | "capacity"> & Partial<Pick<SparseCapacityError, "entity">>,
+    message?: string,
+  ) {
+    const { partitionName, capacity, entity } = details;
+    const partition = partitionName === undefined ? "" : ` for partition ${partitionName}`;
+    super(message ?? `Dense storage exhausted${partition} (capacity: ${capacity})`);
+    this.partitionName = partitionName;
+    this.capacity = capacity;
+    this.entity = entity;
+  }
+}
+
+/** Thrown when an entity is negative, or above the largest entity a partition, tag or sparse mapping can hold */
+export class EntityOutOfBoundsError extends RangeError {
+  override readonly name = "EntityOutOfBoundsError";
+  readonly code = "ENTITY_OUT_OF_BOUNDS";
+
+  /** The entity that is out of bounds */
+  readonly entity: number;
+
+  /** The largest valid entity, if known */
+  readonly max: number | undefined;
+
+  /** The partition, if known */
+  readonly partitionName: string | undefined;
+
+  /**
+   * Create a new EntityOutOfBoundsError
+   * @param message the error description
+   * @param details the entity, the largest valid entity and the partition
+   */
+  constructor(
+    message: string,
+    details: Pick<EntityOutOfBoundsError, "entity"> & Partial<Pick<EntityOutOfBoundsError, "max" | "partitionName">>,
+  ) {
+    super(message);
+    this.entity = details.entity;
+    this.max = details.max;
+    this.partitionName = details.partitionName;
+  }
+}
+
+/** Thrown when a value doesn't fit its bitfield, a vector has the wrong length, or a bitfield's width is invalid */
+export class ValueRangeError extends RangeError {
+  override readonly name = "ValueRangeError";
+  readonly code = "VALUE_RANGE";
+
+  /** The value that is out of range */
+  readonly value: unknown;
+
+  /** The schema property the value is for, if known */
+  readonly property: string | undefined;
+
+  /**
+   * Create a new ValueRangeError
+   * @param message the error description
+   * @param details the value and its schema property
+   */
+  constructor(
+    message: string,
+    details: Pick<ValueRangeError, "value"> & Partial<Pick<ValueRangeError, "property">>,
+  ) {
+    super(message);
+    this.value = details.value;
+    this.property = details.property;
+  }
+}
+
+/** Thrown when a string table has no handles left for a new string */
+export class StringTableFullError extends RangeError {
+  override readonly name = "StringTableFullError";
+  readonly code = "STRING_TABLE_FULL";
+
+  /** The number of handles the table can give out */
+  readonly capacity: number;
+
+  /**
+   * Create a new StringTableFullError
+   * @param capacity the number of handles the table can give out
+   */
+  constructor(capacity: number) {
+    super("String table is full");
+    this.capacity = capacity;
+  }
+}
+
+/** Thrown when a partition's schema, one of its properties or a schema option is invalid */
+export class InvalidSchemaError extends SyntaxError {
+  override readonly name = "InvalidSchemaError";
+  readonly code = "INVALID_SCHEMA";
+
+  /** The partition the schema belongs to, if known */
+  readonly partitionName: string | undefined;
+
+  /** The invalid schema property, if the error is about one */
+  readonly property: string | undefined;
+
+  /**
+   * Create a new InvalidSchemaError
+   * @param message the error description
+   * @param details the partition and property the error belongs to
+   */
+  constructor(message: string, details: Partial<Pick<InvalidSchemaError, "partitionName" | "property">> = {}) {
+    super(message);
+    this.partitionName = details.partitionName;
+    this.property = details.property;
+  }
+}
+
+/**
+ * Thrown when a value can't be used as a schema: it isn't one, or a property's type isn't supported
+ * by the runtime or the memory
+ */
+export class UnsupportedSchemaError extends TypeError {
+  override readonly name = "UnsupportedSchemaError";
+  readonly code = "UNSUPPORTED_SCHEMA";
+
+  /** The partition the schema belongs to, if known */
+  readonly partitionName: string | undefined;
+
+  /** The unsupported schema property, if the error is about one */
+  readonly property: string | undefined;
+
+  /**
+   * Create a new UnsupportedSchemaError
+   * @param message the error description
+   * @param details the partition and property the error belongs to
+   */
+  constructor(message: string, details: Partial<Pick<UnsupportedSchemaError, "partitionName" | "property">> = {}) {
+    super(message);
+    this.partitionName = details.partitionName;
+    this.property = details.property;
+  }
+}
+
+/** Thrown when a partition specification is malformed, or its alignment or arrays can't be applied */
+export class InvalidPartitionSpecError extends SyntaxError {
+  override readonly name = "InvalidPartitionSpecError";
+  readonly code = "INVALID_PARTITION_SPEC";
+
+  /** The specification's name, if it has a string one */
+  readonly partitionName: string | undefined;
+
+  /**
+   * Create a new InvalidPartitionSpecError
+   * @param message the error description
+   * @param details the specification's name, if it has a string one
+   */
+  constructor(message: string, details: Partial<Pick<InvalidPartitionSpecError, "partitionName">> = {}) {
+    super(message);
+    this.partitionName = details.partitionName;
+  }
+}
+
+/** Thrown when a buffer's size, `maxEntitiesPerPartition` or `maxByteLength` is invalid */
+export class InvalidBufferOptionsError extends SyntaxError {
+  override readonly name = "InvalidBufferOptionsError";
+  readonly code = "INVALID_BUFFER_OPTIONS";
+
+  /** The invalid argument or option */
+  readonly option: "size" | "maxEntitiesPerPartition" | "maxByteLength";
+
+  /**
+   * Create a new InvalidBufferOptionsError
+   * @param message the error description
+   * @param option the invalid argument or option
+   */
+  constructor(message: string, option: InvalidBufferOptionsError["option"]) {
+    super(message);
+    this.option = option;
+  }
+}
+
+/** Thrown when bytes passed to `deserialize()` or `migrate()` are not a valid snapshot */
+export class InvalidSnapshotError extends TypeError {
+  override readonly name = "InvalidSnapshotError";
+  readonly code = "INVALID_SNAPSHOT";
+
+  /** The snapshot's format version, if the header was read that far */
+  readonly version: number | undefined;
+
+  /**
+   * Create a new InvalidSnapshotError
+   * @param message the error description
+   * @param details the snapshot's format version, if known
+   */
+  constructor(message: string, details: Partial<Pick<InvalidSnapshotError, "version">> = {}) {
+    super(message);
+    this.version = details.version;
+  }
+}
+
+/** Thrown when a migration step is registered twice for the same partition and version */
+export class DuplicateMigrationError extends Error {
+  override readonly name = "DuplicateMigrationError";
+  readonly code = "DUPLICATE_MIGRATION";
+
+  /** The partition the step migrates */
+  readonly partitionName: string;
+
+  /** The version the step migrates from */
+  readonly fromVersion: number;
+
+  /**
+   * Create a new DuplicateMigrationError
+   * @param partitionName the partition the step migrates
+   * @param fromVersion the version the step migrates from
+   */
+  constructor(partitionName: string, fromVersion: number) {
+    super(`Migration for partition ${partitionName} from version ${fromVersion} already exists`);
+    this.partitionName = partitionName;
+    this.fromVersion = fromVersion;
+  }
+}
+
+/** Thrown when a migration would take a partition to an older version */
+export class MigrationDowngradeError extends RangeError {
+  override readonly name = "MigrationDowngradeError";
+  readonly code = "MIGRATION_DOWNGRADE";
+
+  /** The partition being migrated */
+  readonly partitionName: string;
+
+  /** The source partition's version */
+  readonly fromVersion: number;
+
+  /** The target partition's older version */
+  readonly toVersion: number;
+
+  /**
+   * Create a new MigrationDowngradeError
+   * @param partitionName the partition being migrated
+   * @param fromVersion the source partition's version
+   * @param toVersion the target partition's older version
+   */
+  constructor(partitionName: string, fromVersion: number, toVersion: number) {
+    super(`Cannot migrate partition ${partitionName} from version ${fromVersion} down to ${toVersion}`);
+    this.partitionName = partitionName;
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/** Where a `SchemaParseError` was found in its source */
+export type SchemaParseErrorOptions = {
+  /** The 1-based line of the error, if the source was text */
+  line?: number;
+  /** The 1-based column of the error, if the source was text */
+  column?: number;
+  /** The schema property the error belongs to */
+  property?: string;
+};
+
+/** Thrown when a schema DSL string or JSON schema is malformed */
+export class SchemaParseError extends SyntaxError {
+  override readonly name = "SchemaParseError";
+  readonly code = "SCHEMA_PARSE";
+
+  /** The 1-based line of the error, if the source was text */
+  readonly line?: number;
+
+  /** The 1-based column of the error, if the source was text */
+  readonly column?: number;
+
+  /** The schema property the error belongs to */
+  readonly property?: string;
+
+  /**
+   * Create a new SchemaParseError
+   * @param message the error description
+   * @param options where the error was found
+   */
+  constructor(message: string, options: SchemaParseErrorOptions = {}) {
+    const { line, column, property } = options;
+    super(line === undefined ? message : `${message} at line ${line}, column ${column}`);
+    this.line = line;
+    this.column = column;
+    this.property = property;
+  }
+}
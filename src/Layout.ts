@@ -0,0 +1,379 @@
+/**
+ * @module      Layout
+ * @description Layout and report types, buffer options and the alignment rules partitions are placed by.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { InvalidBufferOptionsError } from "./Errors.ts";
+import { Partition, type PartitionSpec, type PartitionStorage } from "./Partition.ts";
+import {
+  getPropertyAlignment,
+  getPropertyOrder,
+  type SchemaAlignment,
+  type SchemaLayout,
+  type SchemaProperty,
+} from "./Schema.ts";
+import { isUint32 } from "./utils.ts";
+
+/** Minimum alignment in bytes for TypedArrays */
+export const MIN_ALIGNMENT = 8 as const;
+
+/** Maximum safe partition size to prevent allocation errors */
+export const MAX_PARTITION_SIZE = 1073741824 as const; // 1GB (1024 * 1024 * 1024)
+
+/** Memory that partition views can be created over */
+export type PartitionMemory = ArrayBuffer | SharedArrayBuffer;
+
+/** PartitionedBuffer construction options */
+export type PartitionedBufferOptions = {
+  /**
+   * The maximum size in bytes the buffer may grow to.
+   *
+   * When set, the buffer is backed by a resizable ArrayBuffer and `addPartition()`
+   * grows it on demand instead of throwing when there is not enough free space.
+   * Existing partition views remain valid when the buffer grows.
+   */
+  maxByteLength?: number;
+};
+
+/** Options for sizing and adding a batch of partitions */
+export type BatchOptions = {
+  /**
+   * The batch's layout [default = "declared"].
+   *
+   * `"packed"` gives every spec without its own `layout`, and every `Partition` instance, a packed layout,
+   * and adds the partitions by descending alignment instead of in the order given.
+   * Instances are added as packed copies, so look their storage up by name.
+   */
+  layout?: SchemaLayout;
+};
+
+/** A contiguous range of bytes in the buffer */
+export type ByteRange = { byteLength: number; byteOffset: number };
+
+/** The placement of a single schema property's array */
+export type PropertyLayout = {
+  /** The schema property name */
+  name: string;
+  /** The TypedArray constructor name (e.g., `"Float32Array"`), or `"bool"` / `"uint"` for bitfields */
+  type: string;
+  /** The value the array was initialised to */
+  initialValue: number | bigint;
+  /** The byte offset of the array in the buffer */
+  byteOffset: number;
+  /** The number of elements in the array */
+  length: number;
+  /** The number of consecutive elements each entity owns (`1` unless the property is a vector or bitfield) */
+  elementsPerEntity: number;
+  /**
+   * The width of a bitfield property in bits.
+   * A partition's bitfields share one Uint32Array of packed words, so they have the same byte range.
+   */
+  bits?: number;
+};
+
+/** The placement of a single partition */
+export type PartitionLayout = {
+  /** The partition's label */
+  name: string;
+  /** The partition's `maxOwners`, if sparse */
+  maxOwners: number | null;
+  /** The partition's `maxEntityId`, if sparse */
+  maxEntityId: number | null;
+  /** The partition's schema version */
+  version: number;
+  /** The byte offset of the partition storage */
+  byteOffset: number;
+  /** The byte length of the partition storage */
+  byteLength: number;
+  /** The schema properties in declaration order, or `null` for tags */
+  properties: PropertyLayout[] | null;
+  /** The partition's `alignment` option, or `null` for the default */
+  alignment?: SchemaAlignment<Record<string, unknown>> | null;
+  /** The partition's `layout` option [default = "declared"] */
+  layout?: SchemaLayout;
+};
+
+/**
+ * A structured-cloneable description of where every partition lives in a buffer.
+ *
+ * A layout can be posted to a worker alongside the buffer's memory to reconstruct
+ * identical partition storage handles there.
+ */
+export type PartitionedBufferLayout = {
+  /** The buffer's `maxEntitiesPerPartition` */
+  maxEntitiesPerPartition: number;
+  /** The current offset into the buffer */
+  offset: number;
+  /** Byte ranges released by `removePartition()` */
+  freeList: ByteRange[];
+  /** The partitions in insertion order */
+  partitions: PartitionLayout[];
+};
+
+/** A partition name, spec or instance selecting the partitions an entity operation applies to */
+// deno-lint-ignore no-explicit-any
+export type EntityPartitionKey = string | PartitionSpec<any> | Partition<any>;
+
+/** A registered partition and its storage */
+// deno-lint-ignore no-explicit-any
+export type PartitionEntry = [Partition<any>, PartitionStorage<any>];
+
+/** A schema property's place in a layout report */
+export type PropertyDescription = {
+  /** The schema property name */
+  name: string;
+  /** The TypedArray constructor name (e.g., `"Float32Array"`), or `"bool"` / `"uint"` for bitfields */
+  type: string;
+  /** The number of elements in the array */
+  length: number;
+  /** The byte offset of the array in the buffer (bitfields share their packed words' array) */
+  byteOffset: number;
+  /** The byte length of the array */
+  byteLength: number;
+  /** The alignment padding in bytes inserted before the array */
+  padding: number;
+};
+
+/** A partition's place in a layout report */
+export type PartitionDescription = {
+  /** The partition's label */
+  name: string;
+  /** `true` if the partition is a tag */
+  isTag: boolean;
+  /** `true` if the partition uses sparse (`maxOwners`) storage */
+  isSparse: boolean;
+  /** The partition's `maxOwners`, if sparse */
+  maxOwners: number | null;
+  /** The partition's `maxEntityId`, if sparse */
+  maxEntityId: number | null;
+  /** The byte offset of the partition in the buffer */
+  byteOffset: number;
+  /** The bytes spanned by the partition, including alignment padding */
+  byteLength: number;
+  /** The schema properties in declaration order (empty for tags) */
+  properties: PropertyDescription[];
+};
+
+/** A structured report of a buffer's layout */
+export type BufferDescription = {
+  /** The size of the buffer in bytes */
+  byteLength: number;
+  /** The maximum size of the buffer in bytes */
+  maxByteLength: number;
+  /** The buffer's `maxEntitiesPerPartition` */
+  maxEntitiesPerPartition: number;
+  /** The partitions in insertion order */
+  partitions: PartitionDescription[];
+  /** Bytes occupied by partition arrays */
+  usedBytes: number;
+  /** Bytes lost to alignment padding */
+  paddingBytes: number;
+  /** Bytes available to new partitions, including released ranges */
+  freeBytes: number;
+};
+
+/** A sparse partition's dense slot usage, in a memory report */
+export type SparseStats = {
+  /** The number of dense slots (the partition's `maxOwners`) */
+  capacity: number;
+  /** The number of dense slots holding an entity */
+  occupied: number;
+  /** The most dense slots held at once */
+  highWater: number;
+  /** The bytes held by the `SparseIndex` mapping (`Int32Array`s, or an estimate of its `Map`) */
+  indexBytes: number;
+};
+
+/** A partition's memory usage, in a memory report */
+export type PartitionStats = {
+  /** The partition's label */
+  name: string;
+  /** `true` if the partition is a tag */
+  isTag: boolean;
+  /** The bytes spanned by the partition, including alignment padding */
+  byteLength: number;
+  /** Bytes occupied by the partition's arrays */
+  usedBytes: number;
+  /** Bytes lost to alignment padding */
+  paddingBytes: number;
+  /** The partition's dense slot usage, if sparse */
+  sparse: SparseStats | null;
+};
+
+/** A report of a buffer's memory usage */
+export type BufferStats = {
+  /** The size of the buffer in bytes */
+  byteLength: number;
+  /** Bytes occupied by partition arrays */
+  usedBytes: number;
+  /** Bytes lost to alignment padding */
+  paddingBytes: number;
+  /** Bytes available to new partitions, including released ranges */
+  freeBytes: number;
+  /** The number of partitions */
+  partitionCount: number;
+  /** The number of tag partitions */
+  tagCount: number;
+  /** The bytes held by every sparse partition's `SparseIndex` mapping, outside the buffer */
+  indexBytes: number;
+  /** Each partition's usage, in insertion order */
+  partitions: PartitionStats[];
+};
+
+/** Where `add()` would place a partition, without adding it */
+export type PartitionPlan = {
+  /** The partition's label */
+  name: string;
+  /** `true` if the partition fits, after growing resizable memory if needed */
+  fits: boolean;
+  /** `true` if resizable memory must grow for the partition to fit */
+  grows: boolean;
+  /** The byte offset the partition's storage starts at (a released range's start, or the current offset) */
+  byteOffset: number;
+  /** The alignment padding in bytes between `byteOffset` and the partition's first array */
+  padding: number;
+  /** The aligned size of the partition's arrays in bytes */
+  alignedSize: number;
+  /** The bytes missing for the partition to fit, or `0` if it fits */
+  shortfall: number;
+};
+
+/** A partition's size in each layout, in a packing report */
+export type PartitionPacking = {
+  /** The partition's label */
+  name: string;
+  /** The partition's aligned size with its arrays in declaration order */
+  declaredBytes: number;
+  /** The partition's aligned size with a packed layout */
+  packedBytes: number;
+  /** `declaredBytes - packedBytes` */
+  savedBytes: number;
+};
+
+/** The bytes a batch of partitions needs in declaration order and packed */
+export type PackingReport = {
+  /** The bytes needed to add the partitions in the given order, each in declaration order */
+  declaredBytes: number;
+  /** The bytes needed to add the partitions sorted by alignment, each packed */
+  packedBytes: number;
+  /** `declaredBytes - packedBytes` */
+  savedBytes: number;
+  /** Each partition's sizes, in the given order */
+  partitions: PartitionPacking[];
+};
+
+/**
+ * Round an offset up to a multiple of an alignment
+ * @param offset the byte offset
+ * @param alignment a power of two
+ */
+export function roundUp(offset: number, alignment: number): number {
+  return (offset + alignment - 1) & ~(alignment - 1);
+}
+
+/**
+ * Get the alignment a partition's storage starts and ends on: the largest alignment of its arrays
+ * @param partition the partition
+ * @returns the alignment in bytes, at least `MIN_ALIGNMENT`
+ */
+// deno-lint-ignore no-explicit-any
+export function getPartitionAlignment(partition: Partition<any>): number {
+  const { schema, alignment, layout } = partition;
+  if (!schema) return Math.max(MIN_ALIGNMENT, (alignment as number | null) ?? MIN_ALIGNMENT);
+  return Object.entries(schema as Record<string, SchemaProperty>).reduce<number>(
+    (max, [name, property]) => Math.max(max, getPropertyAlignment(name, property, alignment, layout)),
+    MIN_ALIGNMENT,
+  );
+}
+
+/**
+ * Get the alignment a partition's first array starts on: its partition alignment if aligned past `MIN_ALIGNMENT`,
+ * otherwise the alignment of the first array in its layout
+ * @param partition the partition
+ */
+// deno-lint-ignore no-explicit-any
+export function getLeadingAlignment(partition: Partition<any>): number {
+  const { schema, alignment, layout } = partition;
+  const partitionAlignment = getPartitionAlignment(partition);
+  if (!schema || partitionAlignment > MIN_ALIGNMENT) return partitionAlignment;
+  const [first] = getPropertyOrder(schema as Record<string, SchemaProperty>, alignment, layout);
+  return first ? getPropertyAlignment(first[0], first[1], alignment, layout) : partitionAlignment;
+}
+
+/**
+ * Copy a partition specification or instance with another layout
+ * @param spec the partition specification or instance
+ * @param layout the layout to use
+ * @throws {InvalidPartitionSpecError} if the partition specification is invalid
+ */
+// deno-lint-ignore no-explicit-any
+export function withLayout(spec: PartitionSpec<any> | Partition<any>, layout: SchemaLayout): Partition<any> {
+  // deno-lint-ignore no-explicit-any
+  return new Partition<any>({ ...spec, layout } as PartitionSpec<any>);
+}
+
+/**
+ * Prepare partitions to be added as a packed batch: specs without a `layout` and `Partition` instances
+ * (which always have one) are copied with a packed layout, and the partitions are stably sorted by descending alignment so aligned partitions don't pad each other
+ * @param specs the partition specifications or instances, in the order given
+ * @returns the partitions, in the order to add them
+ * @throws {InvalidPartitionSpecError} if a partition specification is invalid
+ */
+// deno-lint-ignore no-explicit-any
+export function packPartitions(specs: readonly (PartitionSpec<any> | Partition<any>)[]): Partition<any>[] {
+  const partitions = specs.map((spec) =>
+    withLayout(spec, spec instanceof Partition ? "packed" : spec.layout ?? "packed")
+  );
+  const alignments = new Map(partitions.map((partition) => [partition, getPartitionAlignment(partition)]));
+  return partitions.sort((a, b) => alignments.get(b)! - alignments.get(a)!);
+}
+
+/**
+ * Validate PartitionedBuffer constructor arguments
+ * @throws {InvalidBufferOptionsError} if `size` or `maxEntitiesPerPartition` are not numbers
+ *   or if `size` or `maxEntitiesPerPartition` are not positive safe integers
+ *   or if `size` is not a multiple of `maxEntitiesPerPartition`
+ *   or if `maxByteLength` is not a Uint32 number >= `size`
+ */
+export function validateBufferArgs(
+  size: number,
+  maxEntitiesPerPartition: number,
+  options: PartitionedBufferOptions,
+): void {
+  // Validate size
+  if (!isUint32(size)) {
+    throw new InvalidBufferOptionsError("size must be a Uint32 number", "size");
+  } else if (size === 0) {
+    throw new InvalidBufferOptionsError("size must be > 0", "size");
+  }
+
+  // Additional validation only when maxEntitiesPerPartition differs from size
+  if (maxEntitiesPerPartition !== size) {
+    if (!isUint32(maxEntitiesPerPartition)) {
+      throw new InvalidBufferOptionsError("maxEntitiesPerPartition must be a Uint32 number", "maxEntitiesPerPartition");
+    } else if (size % maxEntitiesPerPartition !== 0) {
+      throw new InvalidBufferOptionsError("size must be a multiple of maxEntitiesPerPartition", "size");
+    }
+  }
+
+  // Validate maxEntitiesPerPartition minimum ALWAYS (alignment requirement)
+  // This check must come after the Uint32 validation to ensure proper error messages
+  if (maxEntitiesPerPartition < 8) {
+    throw new InvalidBufferOptionsError(
+      "maxEntitiesPerPartition must be at least 8 to accommodate all possible TypedArray alignments",
+      "maxEntitiesPerPartition",
+    );
+  }
+
+  // Validate growth limit
+  const { maxByteLength } = options;
+  if (maxByteLength !== undefined) {
+    if (!isUint32(maxByteLength)) {
+      throw new InvalidBufferOptionsError("maxByteLength must be a Uint32 number", "maxByteLength");
+    } else if (maxByteLength < size) {
+      throw new InvalidBufferOptionsError("maxByteLength must be >= size", "maxByteLength");
+    }
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * @module      Migration
+ * @description Schema version migrations for rebuilding a buffer saved with older partition schemas.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { DuplicateMigrationError, MigrationDowngradeError } from "./Errors.ts";
+import type { PartitionRegistry } from "./PartitionRegistry.ts";
+import {
+  getPropertyType,
+  isBitfieldProperty,
+  isStringProperty,
+  isVectorProperty,
+  type SchemaProperty,
+  type SchemaStorage,
+} from "./Schema.ts";
+import { TagStorage } from "./TagStorage.ts";
+import { isBigIntTypedArrayConstructor, isValidName, type TypedArrayConstructor } from "./utils.ts";
+
+/** An entity's values keyed by schema property name. Vector values are plain arrays. */
+export type MigrationValues = Record<string, unknown>;
+
+/**
+ * A migration step from one schema version to the next.
+ *
+ * Receives an entity's values under the older schema and returns them (or mutates them in place) for the next version.
+ * Values whose names are not in the final schema are dropped.
+ */
+export type Migration = (values: MigrationValues, entity: number) => MigrationValues | void;
+
+/** Options for `PartitionedBuffer.migrate()` */
+export type MigrateOptions = {
+  /** Migration steps to run between schema versions */
+  migrations?: MigrationRegistry;
+  /** The size of the new buffer [default = the source buffer's size] */
+  size?: number;
+  /** The maximum size the new buffer may grow to [default = the source buffer's, if it is resizable] */
+  maxByteLength?: number;
+};
+
+/**
+ * A registry of per-partition migration steps between schema versions.
+ *
+ * Each step migrates one partition's entity values from a version to the next one.
+ * Versions without a registered step are migrated automatically: properties with matching names
+ * are copied with numeric conversion, new properties keep their defaults and removed properties are dropped.
+ *
+ * @example ```
+ * const migrations = new MigrationRegistry()
+ *   // v0 stored health as a 0-255 byte, v1 stores a 0-1 float
+ *   .register("health", 0, (values) => ({ value: (values["value"] as number) / 255 }));
+ *
+ * const buffer = PartitionedBuffer.migrate(savedBytes, [healthV1], { migrations });
+ * ```
+ */
+export class MigrationRegistry {
+  /** Migration steps by partition name, then by the version they migrate from */
+  readonly #steps = new Map<string, Map<number, Migration>>();
+
+  /**
+   * Register a migration step
+   * @param partition the partition name
+   * @param fromVersion the schema version the step migrates from, to `fromVersion + 1`
+   * @param migration the migration step
+   * @returns this registry, for chaining
+   * @throws {TypeError} if the name, version or migration is invalid
+   * @throws {DuplicateMigrationError} if a step is already registered for the partition and version
+   */
+  register(partition: string, fromVersion: number, migration: Migration): this {
+    if (!isValidName(partition)) {
+      throw new TypeError(`Invalid partition name ${partition}`);
+    }
+    if (!Number.isSafeInteger(fromVersion) || fromVersion < 0) {
+      throw new TypeError(`Migration version must be a non-negative safe integer, got ${fromVersion}`);
+    }
+    if (typeof migration !== "function") {
+      throw new TypeError("Migration must be a function");
+    }
+    let steps = this.#steps.get(partition);
+    if (!steps) {
+      steps = new Map();
+      this.#steps.set(partition, steps);
+    }
+    if (steps.has(fromVersion)) {
+      throw new DuplicateMigrationError(partition, fromVersion);
+    }
+    steps.set(fromVersion, migration);
+    return this;
+  }
+
+  /**
+   * Get a registered migration step
+   * @param partition the partition name
+   * @param fromVersion the schema version the step migrates from
+   * @returns the step, or `undefined` if none is registered
+   */
+  get(partition: string, fromVersion: number): Migration | undefined {
+    return this.#steps.get(partition)?.get(fromVersion);
+  }
+
+  /**
+   * Run every registered step between two versions over an entity's values
+   * @param partition the partition name
+   * @param fromVersion the version the values were saved with
+   * @param toVersion the version to migrate the values to
+   * @param values the entity's values
+   * @param entity the entity ID
+   * @returns the migrated values
+   */
+  apply(
+    partition: string,
+    fromVersion: number,
+    toVersion: number,
+    values: MigrationValues,
+    entity: number,
+  ): MigrationValues {
+    for (let version = fromVersion; version < toVersion; version++) {
+      const migration = this.get(partition, version);
+      if (migration) values = migration(values, entity) ?? values;
+    }
+    return values;
+  }
+}
+
+/**
+ * Convert a value to a scalar of a TypedArray's element type
+ * @returns the converted value, or `undefined` if the value is not numeric
+ */
+function convertScalar(Ctr: TypedArrayConstructor, value: unknown): number | bigint | undefined {
+  if (typeof value === "boolean") value = Number(value);
+  if (typeof value !== "number" && typeof value !== "bigint") return undefined;
+  if (!isBigIntTypedArrayConstructor(Ctr)) return Number(value);
+  if (typeof value === "bigint") return value;
+  return Number.isFinite(value) ? BigInt(Math.trunc(value)) : undefined;
+}
+
+/**
+ * Convert a migrated value to the form a schema property's `set()` accepts
+ * @returns the converted value, or `undefined` to keep the property's default
+ */
+function convertValue(property: SchemaProperty, value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+  if (isStringProperty(property)) {
+    return typeof value === "string" ? value : undefined;
+  }
+  if (isBitfieldProperty(property)) {
+    const n = convertScalar(Float64Array, value) as number | undefined;
+    if (n === undefined || !Number.isFinite(n)) return undefined;
+    if (property.kind === "bool") return n !== 0;
+    const range = 2 ** property.bits;
+    return ((Math.trunc(n) % range) + range) % range;
+  }
+  const Ctr = getPropertyType(property);
+  if (!isVectorProperty(property)) {
+    return convertScalar(Ctr, value);
+  }
+  if (!Array.isArray(value) && !ArrayBuffer.isView(value)) return undefined;
+  const source = value as unknown as ArrayLike<unknown>;
+  const vector = new Ctr(property.length);
+  for (let i = 0; i < Math.min(source.length, vector.length); i++) {
+    const element = convertScalar(Ctr, source[i]);
+    if (element !== undefined) vector[i] = element;
+  }
+  return vector;
+}
+
+/**
+ * Copy every partition's entities from a registry into the same-named partitions of another,
+ * running migrations between their schema versions.
+ *
+ * Partitions only in the source are dropped. Partitions only in the target keep their defaults,
+ * as do partitions that changed between a tag and a schema.
+ *
+ * @param source the registry holding the older data
+ * @param target the registry with the current partitions
+ * @param migrations the migration steps to run
+ * @throws {MigrationDowngradeError} if a source partition has a newer version than its target
+ * @internal Used by `PartitionedBuffer.migrate()`.
+ */
+export function migratePartitions(
+  source: PartitionRegistry,
+  target: PartitionRegistry,
+  migrations: MigrationRegistry = new MigrationRegistry(),
+): void {
+  const sources = new Map([...source.entries()].map((entry) => [entry[0].name, entry]));
+
+  for (const [partition, storage] of target.entries()) {
+    const { name, version } = partition;
+    const entry = sources.get(name);
+    if (!entry) continue;
+    const [previous, previousStorage] = entry;
+    if (previous.version > version) {
+      throw new MigrationDowngradeError(name, previous.version, version);
+    }
+
+    if (storage instanceof TagStorage || previousStorage instanceof TagStorage) {
+      if (storage instanceof TagStorage && previousStorage instanceof TagStorage) {
+        for (const entity of previousStorage) storage.add(entity);
+      }
+      continue;
+    }
+
+    const index = source.getSparseIndex(previous);
+    const entities: number[] = [];
+    if (index) index.forEach((entity) => entities.push(entity));
+    else for (let entity = 0; entity < source.maxEntitiesPerPartition; entity++) entities.push(entity);
+
+    const previousSchema = Object.keys(previous.schema as Record<string, SchemaProperty>);
+    const schema = Object.entries(partition.schema as Record<string, SchemaProperty>);
+    const isDense = !target.getSparseIndex(partition);
+    const from = previousStorage as SchemaStorage<Record<string, unknown>>;
+    const to = storage as SchemaStorage<Record<string, unknown>>;
+
+    for (const entity of entities) {
+      if (isDense && entity >= target.maxEntitiesPerPartition) continue;
+      let values: MigrationValues = {};
+      for (const key of previousSchema) {
+        const value = from.get(key, entity);
+        values[key] = ArrayBuffer.isView(value) ? Array.from(value as unknown as ArrayLike<unknown>) : value;
+      }
+      values = migrations.apply(name, previous.version, version, values, entity);
+      for (const [key, property] of schema) {
+        if (!Object.hasOwn(values, key)) continue;
+        const value = convertValue(property, values[key]);
+        if (value !== undefined) to.set(key, entity, value);
+      }
+    }
+  }
+}
@@ -5,7 +5,20 @@
  * @license     MIT
  */
 
-import { getEntitySize, isSchema, type Schema, type SchemaSpec, type SchemaStorage } from "./Schema.ts";
+import { InvalidPartitionSpecError } from "./Errors.ts";
+import {
+  getEntitySize,
+  isSchema,
+  isSchemaLayout,
+  isValidSchemaAlignment,
+  type Schema,
+  type SchemaAlignment,
+  type SchemaLayout,
+  type SchemaSpec,
+  type SchemaStorage,
+  validateSchema,
+} from "./Schema.ts";
+import type { TagStorage } from "./TagStorage.ts";
 import { isValidName } from "./utils.ts";
 
 /**
@@ -48,8 +61,47 @@ export type PartitionMeta<T extends SchemaSpec<T> | null> = {
    */
   maxEntityId?: number | null;
 
+  /**
+   * Byte alignment of the partition's arrays [default = 8 bytes, or the element size if larger].
+   *
+   * A number aligns the partition's start, its end and every one of its arrays, so `64` keeps the partition
+   * on its own cache lines (avoiding false sharing between workers writing different partitions).
+   * An object aligns individual schema properties' arrays instead (e.g., `{ matrix: 32 }` for SIMD kernels).
+   * Alignments must be powers of two.
+   *
+   * @example ```
+   * const spec: PartitionSpec<Vec2> = { name: "position", schema: { x: Float32Array, y: Float32Array }, alignment: 64 };
+   * ```
+   */
+  alignment?: SchemaAlignment<T> | null;
+
+  /**
+   * How the partition's arrays are laid out [default = "declared"].
+   *
+   * `"packed"` orders the arrays by descending alignment and drops the 8-byte minimum between them,
+   * so a schema mixing `Uint8Array` and `Float64Array` properties wastes less memory on padding.
+   * Property names and storage access are unchanged.
+   *
+   * @example ```
+   * const spec: PartitionSpec<Unit> = {
+   *   name: "unit",
+   *   schema: { team: Uint8Array, hp: Float64Array, rank: Uint8Array },
+   *   layout: "packed",
+   * };
+   * ```
+   */
+  layout?: SchemaLayout;
+
   /** The component's label */
   name: string;
+
+  /**
+   * The schema version [default = 0].
+   *
+   * Bump this whenever the schema changes, so `PartitionedBuffer.migrate()` knows
+   * which registered migrations to run when rebuilding a buffer saved with an older schema.
+   */
+  version?: number;
 };
 
 /**
@@ -94,8 +146,25 @@ export type PartitionSpec<T extends SchemaSpec<T> | null = null> = PartitionSche
 
 /**
  * Internal partition data storage
+ *
+ * Schema partitions get a SchemaStorage, tags get a TagStorage bitset.
  */
-export type PartitionStorage<T extends SchemaSpec<T> | null> = T extends SchemaSpec<infer U> ? SchemaStorage<U> : null;
+export type PartitionStorage<T extends SchemaSpec<T> | null> = T extends SchemaSpec<infer U> ? SchemaStorage<U>
+  : TagStorage;
+
+/**
+ * Partition storages keyed like a record of partition specifications or instances
+ *
+ * @example ```
+ * // { position: SchemaStorage<Vec2>; alive: TagStorage }
+ * type Storages = PartitionStorages<{ position: PartitionSpec<Vec2>; alive: PartitionSpec }>;
+ * ```
+ */
+export type PartitionStorages<S> = {
+  [K in keyof S]: S[K] extends Partition<infer T> ? PartitionStorage<T>
+    : S[K] extends PartitionSpec<infer T> ? PartitionStorage<T>
+    : never;
+};
 
 /**
  * Typeguard for a partition specification
@@ -103,13 +172,17 @@ export type PartitionStorage<T extends SchemaSpec<T> | null> = T extends SchemaS
  * @returns `true` if the specification is valid
  */
 export function isValidPartitionSpec<T extends SchemaSpec<T> | null>(spec: unknown): spec is PartitionSpec<T> {
-  const { name, schema = null, maxOwners = null, maxEntityId = null } = spec as PartitionSpec<T> & {
+  const { name, schema = null, maxOwners = null, maxEntityId = null, version = 0 } = spec as PartitionSpec<T> & {
     maxEntityId?: number | null;
   };
+  const { alignment = null, layout = "declared" } = spec as PartitionSpec<T>;
   if (!isValidName(name)) return false;
+  if (!Number.isSafeInteger(version) || version < 0) return false;
   if (maxOwners !== null && (!Number.isSafeInteger(maxOwners) || maxOwners <= 0)) return false;
   if (maxEntityId !== null && (!Number.isSafeInteger(maxEntityId) || maxEntityId < 0)) return false;
   if (schema && !isSchema(schema)) return false;
+  if (alignment !== null && !isValidSchemaAlignment(alignment, schema)) return false;
+  if (!isSchemaLayout(layout)) return false;
   return true;
 }
 
@@ -123,6 +196,12 @@ export class Partition<T extends SchemaSpec<T> | null = null> {
   readonly maxOwners: number | null;
   /** Maximum entity ID for zero-allocation sparse storage (inclusive). */
   readonly maxEntityId: number | null;
+  /** The schema version */
+  readonly version: number;
+  /** Byte alignment of the partition's arrays, or `null` for the default */
+  readonly alignment: SchemaAlignment<T> | null;
+  /** How the partition's arrays are laid out */
+  readonly layout: SchemaLayout;
   /** The storage requirements of the schema in bytes for a single entity */
   readonly size: number;
   /** `true` if the partition is a tag */
@@ -131,20 +210,28 @@ export class Partition<T extends SchemaSpec<T> | null = null> {
   /**
    * Create a new partition
    * @param spec the partition specification
-   * @throws {SyntaxError} if the specification is invalid
+   * @throws {InvalidSchemaError} if the schema is invalid
+   * @throws {InvalidPartitionSpecError} if the rest of the specification is invalid
    */
   constructor(spec: PartitionSpec<T>) {
+    const { name: label, schema: candidate } = (spec ?? {}) as { name?: unknown; schema?: unknown };
+    const partitionName = typeof label === "string" ? label : undefined;
+    if (candidate) validateSchema(candidate, partitionName);
     if (!isValidPartitionSpec(spec)) {
-      throw new SyntaxError("Invalid partition specification.");
+      throw new InvalidPartitionSpecError("Invalid partition specification.", { partitionName });
     }
-    const { name, schema = null, maxOwners = null, maxEntityId = null } = spec as PartitionSpec<T> & {
+    const { name, schema = null, maxOwners = null, maxEntityId = null, version = 0 } = spec as PartitionSpec<T> & {
       maxEntityId?: number | null;
     };
+    const { alignment = null, layout = "declared" } = spec;
     this.name = name;
     this.schema = schema as T extends SchemaSpec<infer U> ? Schema<U> : null;
     this.maxOwners = maxOwners ?? null;
     this.maxEntityId = maxEntityId ?? null;
-    this.size = schema ? getEntitySize(schema) : 0;
+    this.version = version;
+    this.alignment = alignment ?? null;
+    this.layout = layout;
+    this.size = schema ? getEntitySize(schema, alignment as SchemaAlignment<unknown> | null, layout) : 0;
     this.isTag = (schema === null) as T extends null ? true : false;
   }
 }
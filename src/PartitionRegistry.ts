@@ -0,0 +1,1843 @@
+/**
+ * @module      PartitionRegistry
+ * @description Partition allocation and bookkeeping over an ArrayBuffer or SharedArrayBuffer.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import {
+  DuplicatePartitionError,
+  EntityOutOfBoundsError,
+  InvalidPartitionSpecError,
+  InvalidSchemaError,
+  PartitionNotFoundError,
+  PartitionOverflowError,
+  SparseCapacityError,
+  UnsupportedSchemaError,
+  ValueRangeError,
+} from "./Errors.ts";
+import {
+  type BufferDescription,
+  type BufferStats,
+  type ByteRange,
+  type EntityPartitionKey,
+  getLeadingAlignment,
+  getPartitionAlignment,
+  MAX_PARTITION_SIZE,
+  MIN_ALIGNMENT,
+  type PackingReport,
+  packPartitions,
+  type PartitionedBufferLayout,
+  type PartitionEntry,
+  type PartitionLayout,
+  type PartitionMemory,
+  type PartitionPlan,
+  type PartitionStats,
+  type PropertyLayout,
+  roundUp,
+  type SparseStats,
+  withLayout,
+} from "./Layout.ts";
+import { Partition, type PartitionSpec, type PartitionStorage } from "./Partition.ts";
+import {
+  type BitfieldSchemaProperty,
+  getBitfieldLayout,
+  getPropertyAlignment,
+  getPropertyDefault,
+  getPropertyLength,
+  getPropertyOrder,
+  getPropertyType,
+  getSchemaSignature,
+  isBitfieldProperty,
+  isStringProperty,
+  isValidBitfieldValue,
+  isVectorProperty,
+  type Schema,
+  type SchemaAlignment,
+  type SchemaLayout,
+  type SchemaProperty,
+  type SchemaSpec,
+  type SchemaStorage,
+  string,
+} from "./Schema.ts";
+import type { Snapshot } from "./Snapshot.ts";
+import { type SparseFacade, sparseFacade, SparseIndex } from "./SparseFacade.ts";
+import { StringTable } from "./StringTable.ts";
+import { getTagByteLength, TagStorage } from "./TagStorage.ts";
+import {
+  getTypedArrayConstructor,
+  hashString,
+  isBigIntTypedArrayConstructor,
+  isObject,
+  isTypedArrayConstructor,
+  isUint32,
+  isValidTypedArrayValue,
+  type TypedArray,
+  type TypedArrayConstructor,
+  zeroArray,
+} from "./utils.ts";
+
+/** A partition plan, plus the details `add()` needs to allocate it */
+type Placement = PartitionPlan & {
+  /** The alignment the partition's storage starts and ends on */
+  alignment: number;
+  /** The index of the released range to reuse, or -1 to append */
+  freeRangeIndex: number;
+  /** The bytes from `byteOffset` the partition needs */
+  required: number;
+};
+
+/**
+ * Get the mask covering the low `bits` bits of a word
+ * @param bits the width of the field in bits [1, 32]
+ */
+function bitMask(bits: number): number {
+  return bits === 32 ? 0xffffffff : (1 << bits) - 1;
+}
+
+/**
+ * Check if a layout property type names a bitfield kind
+ * @param type the property's layout type
+ */
+function isBitfieldType(type: string): type is BitfieldSchemaProperty["kind"] {
+  return type === "bool" || type === "uint";
+}
+
+/**
+ * Check an entity ID is a non-negative safe integer, as every entity operation requires
+ * @param entity the entity to check
+ * @throws {TypeError} if the entity is not a safe integer
+ * @throws {EntityOutOfBoundsError} if the entity is negative
+ */
+function validateEntityIndex(entity: number): void {
+  if (!Number.isSafeInteger(entity)) {
+    throw new TypeError(`Entity must be a safe integer, got ${entity}`);
+  }
+  if (entity < 0) {
+    throw new EntityOutOfBoundsError(`Entity index must be non-negative, got ${entity}`, { entity });
+  }
+}
+
+/**
+ * Check a value's type against a schema property before writing it with `setEntity()`
+ * @param key the schema property name
+ * @param property the schema property
+ * @param value the value to check
+ * @throws {TypeError} if the value has the wrong type
+ * @throws {ValueRangeError} if a bitfield value is out of range or a vector has the wrong length
+ */
+function validateEntityValue(key: string, property: SchemaProperty, value: unknown): void {
+  if (isStringProperty(property)) {
+    if (typeof value !== "string") {
+      throw new TypeError(`Value for string property ${key} must be a string, got ${typeof value}`);
+    }
+    return;
+  }
+  if (isBitfieldProperty(property)) {
+    const { kind, bits } = property;
+    const n = kind === "bool" && typeof value === "boolean" ? Number(value) : value;
+    if (typeof n !== "number") {
+      throw new TypeError(`Value for ${kind} property ${key} must be a ${kind === "bool" ? "boolean" : "number"}`);
+    }
+    if (!isValidBitfieldValue(bits, n)) {
+      throw new ValueRangeError(`Value ${value} out of range for ${bits}-bit field ${key}`, { value, property: key });
+    }
+    return;
+  }
+  const isBigInt = isBigIntTypedArrayConstructor(getPropertyType(property));
+  const element = isBigInt ? "bigint" : "number";
+  const isElement = (v: unknown): boolean => isBigInt ? typeof v === "bigint" : typeof v === "number";
+  if (!isVectorProperty(property)) {
+    if (!isElement(value)) {
+      throw new TypeError(`Value for property ${key} must be a ${element}, got ${typeof value}`);
+    }
+    return;
+  }
+  if (!Array.isArray(value) && !ArrayBuffer.isView(value)) {
+    throw new TypeError(`Value for vector property ${key} must be an array or TypedArray`);
+  }
+  const values = value as unknown as ArrayLike<unknown>;
+  if (values.length !== property.length) {
+    throw new ValueRangeError(`Expected ${property.length} values for partition ${key}, got ${values.length}`, {
+      value,
+      property: key,
+    });
+  }
+  for (let i = 0; i < values.length; i++) {
+    if (!isElement(values[i])) {
+      throw new TypeError(`Values for vector property ${key} must be ${element}s, got ${typeof values[i]}`);
+    }
+  }
+}
+
+/**
+ * Pack a schema's bitfield defaults into one entity's words
+ * @param schema the schema
+ * @returns the packed words, `words` long (empty if the schema has no bitfields)
+ */
+function getBitfieldRecord(schema: Record<string, SchemaProperty>): Uint32Array {
+  const { words, fields } = getBitfieldLayout(schema);
+  const record = new Uint32Array(words);
+  for (const { property, word, shift } of fields.values()) {
+    record[word] = record[word]! | (property.initialValue << shift);
+  }
+  return record;
+}
+
+/**
+ * Get the TypedArray constructor backing a layout property type
+ * @param type the property's layout type (bitfields and strings are stored as Uint32 words)
+ */
+function getLayoutConstructor(type: string): TypedArrayConstructor | undefined {
+  return isBitfieldType(type) || type === "string" ? Uint32Array : getTypedArrayConstructor(type);
+}
+
+/**
+ * Clear all partitions in a buffer
+ * @param partition the partition to clear
+ * @returns the partition
+ * @note Uses for...in to avoid Object.values() allocation
+ */
+function clearAllPartitionArrays<T extends SchemaSpec<T> | null>(
+  partition: PartitionStorage<T>,
+): PartitionStorage<T> {
+  if (partition instanceof TagStorage) {
+    partition.clear();
+    return partition;
+  }
+  // Use for...in to avoid Object.values() allocation
+  for (const key in partition.partitions) {
+    if (Object.prototype.hasOwnProperty.call(partition.partitions, key)) {
+      zeroArray(partition.partitions[key as keyof typeof partition.partitions]);
+    }
+  }
+  return partition;
+}
+
+/**
+ * Fill the entity slots in `[start, end)` of an array with a pattern, one `pattern.length` stride per entity
+ * @param array the array to fill
+ * @param pattern one entity's values
+ * @param start the first entity
+ * @param end the entity after the last
+ */
+function fillSlots(array: TypedArray, pattern: TypedArray, start: number, end: number): void {
+  const stride = pattern.length;
+  if (stride === 1) {
+    array.fill(pattern[0] as never, start, end);
+    return;
+  }
+  for (let entity = start; entity < end; entity++) array.set(pattern as never, entity * stride);
+}
+
+/** @returns `true` if the memory is a SharedArrayBuffer */
+const isSharedMemory = (memory: PartitionMemory): memory is SharedArrayBuffer => {
+  return typeof SharedArrayBuffer !== "undefined" && memory instanceof SharedArrayBuffer;
+};
+
+/**
+ * Partition allocation and bookkeeping for a block of memory.
+ * @internal Used by `PartitionedBuffer` and `SharedPartitionedBuffer`.
+ */
+export class PartitionRegistry {
+  /** The maximum possible number of owners per partition */
+  readonly maxEntitiesPerPartition: number;
+
+  /** The memory partition views are created over */
+  readonly #memory: PartitionMemory;
+
+  /** The partitions in the buffer */
+  // deno-lint-ignore no-explicit-any
+  readonly #partitions: Map<Partition<any>, PartitionStorage<any>>;
+
+  /** A map of all partition names for fast lookup */
+  // deno-lint-ignore no-explicit-any
+  readonly #partitionsByNames: Map<string, PartitionStorage<any>>;
+
+  /** The shared entity-to-dense index mapping of each sparse partition */
+  // deno-lint-ignore no-explicit-any
+  readonly #sparseIndexes: Map<Partition<any>, SparseIndex>;
+
+  /** Byte ranges released by `remove()`, sorted by offset and coalesced */
+  readonly #freeList: ByteRange[];
+
+  /** The current offset into the underlying memory */
+  #offset: number;
+
+  /** Incremented whenever partitions are added or removed */
+  #version: number;
+
+  /** The intern table for string properties */
+  readonly #strings: StringTable;
+
+  constructor(memory: PartitionMemory, maxEntitiesPerPartition: number) {
+    this.#memory = memory;
+    this.#partitions = new Map();
+    this.#partitionsByNames = new Map();
+    this.#sparseIndexes = new Map();
+    this.#freeList = [];
+    this.#offset = 0;
+    this.#version = 0;
+    this.#strings = new StringTable();
+    this.maxEntitiesPerPartition = maxEntitiesPerPartition;
+  }
+
+  /** Incremented whenever partitions are added or removed */
+  get version(): number {
+    return this.#version;
+  }
+
+  /** The intern table for string properties */
+  get strings(): StringTable {
+    return this.#strings;
+  }
+
+  /**
+   * Align the current offset for a partition's next array
+   * @throws {InvalidPartitionSpecError} if the alignment is not a power of 2
+   * @throws {PartitionOverflowError} if there is no space left to align into
+   */
+  #alignOffset(partitionName: string, alignment: number): void {
+    const oldOffset = this.#offset;
+    const failed = `Failed to align partition "${partitionName}"`;
+    // Callers apply the minimum alignment for the partition's layout, so only ensure a power of 2
+    if ((alignment & (alignment - 1)) !== 0) {
+      throw new InvalidPartitionSpecError(`${failed}: Alignment must be a power of 2, got ${alignment}`, {
+        partitionName,
+      });
+    }
+    const available = this.#memory.byteLength - oldOffset;
+    const alignedOffset = (oldOffset + alignment - 1) & ~(alignment - 1);
+    if (alignedOffset - oldOffset > available) {
+      throw new PartitionOverflowError(`${failed}: Insufficient space for alignment`, {
+        partitionName,
+        required: alignedOffset - oldOffset,
+        available,
+      });
+    }
+
+    this.#offset = alignedOffset;
+
+    if (this.#offset < oldOffset) {
+      throw new PartitionOverflowError(`${failed}: Alignment calculation overflow`, {
+        partitionName,
+        required: alignment,
+        available,
+      });
+    }
+  }
+
+  #createPartition<T extends SchemaSpec<T> | null>(
+    partitionName: string,
+    [name, value]: [keyof T, SchemaProperty],
+    maxOwners: number | null = null,
+    maxEntityId: number | null = null,
+    sharedIndex?: SparseIndex,
+    alignment: SchemaAlignment<Record<string, unknown>> | null = null,
+    layout: SchemaLayout = "declared",
+  ): [keyof T, TypedArray] {
+    // Validate schema entry
+    this.#validateSchemaEntry(partitionName, String(name), value);
+
+    const Ctr: TypedArrayConstructor = getPropertyType(value);
+    const initialValue = getPropertyDefault(value);
+    const vectorLength = getPropertyLength(value);
+    const bytesPerElement = Ctr.BYTES_PER_ELEMENT;
+
+    // Pre-calculate required space
+    // Use maxOwners if specified (for sparse storage), otherwise maxEntitiesPerPartition
+    const elements = (maxOwners ?? this.maxEntitiesPerPartition) * vectorLength;
+    const requiredBytes = elements * bytesPerElement;
+
+    // Validate size
+    if (requiredBytes > MAX_PARTITION_SIZE) {
+      throw new PartitionOverflowError(
+        `Partition "${
+          String(name)
+        }" size (${requiredBytes} bytes) exceeds maximum allowed (${MAX_PARTITION_SIZE} bytes)`,
+        { partitionName, required: requiredBytes, available: MAX_PARTITION_SIZE },
+      );
+    }
+
+    this.#alignOffset(partitionName, getPropertyAlignment(String(name), value, alignment, layout));
+
+    if (this.#offset + requiredBytes > this.#memory.byteLength) {
+      const available = this.#memory.byteLength - this.#offset;
+      throw new PartitionOverflowError(
+        `Buffer overflow: insufficient space for partition "${String(name)}"\n` +
+          `Required: ${requiredBytes} bytes\n` +
+          `Available: ${available} bytes\n` +
+          `Missing: ${requiredBytes - available} bytes`,
+        { partitionName, required: requiredBytes, available },
+      );
+    }
+
+    // Create array at aligned offset
+    let typedArray: TypedArray;
+    try {
+      typedArray = new Ctr(this.#memory as ArrayBuffer, this.#offset, elements);
+      typedArray.fill(initialValue as never);
+    } catch (error) {
+      throw new InvalidPartitionSpecError(
+        `Failed to create TypedArray for partition "${String(name)}": ${(error as Error).message}`,
+        { partitionName },
+      );
+    }
+
+    this.#offset += requiredBytes;
+
+    // Vectors keep their dense slots; entity access goes through the storage's get/set
+    if (maxOwners && vectorLength > 1) {
+      sharedIndex?.registerDenseArray(typedArray, { stride: vectorLength });
+      return [name, typedArray];
+    }
+
+    // Wrap with SparseFacade if maxOwners is specified
+    // Use zero-allocation mode if maxEntityId is also specified
+    if (maxOwners) {
+      const facade = sparseFacade(typedArray, maxEntityId ?? undefined, sharedIndex);
+      if (sharedIndex) this.#registerSparseScalar(sharedIndex, typedArray, value);
+      return [name, facade];
+    }
+    return [name, typedArray];
+  }
+
+  /** Register a sparse scalar property's dense array, so removed entities reset to its default */
+  #registerSparseScalar(index: SparseIndex, dense: TypedArray, property: SchemaProperty): void {
+    if (isStringProperty(property)) {
+      index.registerDenseArray(dense, { release: this.#releaseString, retain: this.#retainString });
+    } else {
+      index.registerDenseArray(dense, { initial: [getPropertyDefault(property)] as ArrayLike<number> });
+    }
+  }
+
+  /** Release a string handle cleared from a sparse partition */
+  readonly #releaseString = (handle: number): void => {
+    this.#strings.release(handle);
+  };
+
+  /** Retain a string handle copied between sparse slots */
+  readonly #retainString = (handle: number): void => {
+    this.#strings.retain(handle);
+  };
+
+  /**
+   * Create the packed words shared by a schema's bitfield properties, initialised to their defaults
+   */
+  #createBitfieldWords(
+    partitionName: string,
+    schema: Record<string, SchemaProperty>,
+    maxOwners: number | null,
+    sharedIndex?: SparseIndex,
+    alignment: number = Uint32Array.BYTES_PER_ELEMENT,
+  ): Uint32Array {
+    const record = getBitfieldRecord(schema);
+    const words = record.length;
+
+    this.#alignOffset(partitionName, alignment);
+    const elements = (maxOwners ?? this.maxEntitiesPerPartition) * words;
+    const array = new Uint32Array(this.#memory as ArrayBuffer, this.#offset, elements);
+    for (let i = 0; i < elements; i += words) array.set(record, i);
+    this.#offset += array.byteLength;
+
+    sharedIndex?.registerDenseArray(array, { stride: words, initial: record });
+    return array;
+  }
+
+  /**
+   * Create the storage convenience object for a set of partition arrays
+   */
+  #createStorage<T extends SchemaSpec<T> | null>(
+    partitions: Record<keyof T, TypedArray>,
+    byteOffset: number,
+    byteLength: number,
+    schemaEntries: [keyof T, SchemaProperty][],
+    sharedIndex?: SparseIndex,
+  ): PartitionStorage<T> {
+    // Vector properties are read and written as per-entity subarrays of `length` elements
+    const vectorLengths = new Map<keyof T, number>();
+    for (const [key, value] of schemaEntries) {
+      const length = getPropertyLength(value);
+      if (length > 1) vectorLengths.set(key, length);
+    }
+    // String properties hold handles into the string table
+    const stringProperties = new Set(schemaEntries.filter(([, value]) => isStringProperty(value)).map(([key]) => key));
+    // Bitfields are packed into `words` shared Uint32 words per entity
+    const { words, fields } = getBitfieldLayout(Object.fromEntries(schemaEntries));
+    const bitfieldSlot = (index: number, array: TypedArray, ensure: boolean): number | undefined => {
+      const slot = sharedIndex ? (ensure ? sharedIndex.ensure(index) : sharedIndex.get(index)) : index;
+      if (slot === undefined || !Number.isSafeInteger(slot) || slot < 0 || slot * words >= array.length) {
+        return undefined;
+      }
+      return slot;
+    };
+
+    const get = (partition: keyof T, index: number): number | bigint | boolean | string | TypedArray | undefined => {
+      const field = fields.get(partition as string);
+      if (field) {
+        const array = partitions[partition];
+        const slot = bitfieldSlot(index, array, false);
+        if (slot === undefined) return undefined;
+        const value =
+          (((array[slot * words + field.word] as number) >>> field.shift) & bitMask(field.property.bits)) >>> 0;
+        return field.property.kind === "bool" ? value !== 0 : value;
+      }
+      if (stringProperties.has(partition)) {
+        const handle = partitions[partition]?.[index] as number | undefined;
+        return handle === undefined ? undefined : this.#strings.get(handle);
+      }
+      const length = vectorLengths.get(partition);
+      if (length === undefined) {
+        return partitions[partition]?.[index] ?? undefined;
+      }
+      const slot = sharedIndex ? sharedIndex.get(index) : index;
+      const array = partitions[partition];
+      if (!array || slot === undefined || !Number.isSafeInteger(slot) || slot < 0 || slot * length >= array.length) {
+        return undefined;
+      }
+      return array.subarray(slot * length, (slot + 1) * length);
+    };
+
+    const set = (
+      partition: keyof T,
+      index: number,
+      value: number | bigint | boolean | string | ArrayLike<number | bigint>,
+    ): void => {
+      const partitionStorage = partitions[partition];
+      if (!partitionStorage) {
+        throw new PartitionNotFoundError(String(partition), `Partition ${String(partition)} not found`);
+      }
+      const field = fields.get(partition as string);
+      if (field) {
+        const { kind, bits } = field.property;
+        const bitfieldValue = kind === "bool" && typeof value === "boolean" ? Number(value) : value;
+        if (!isValidBitfieldValue(bits, bitfieldValue)) {
+          throw new ValueRangeError(`Value ${value} out of range for ${bits}-bit field ${String(partition)}`, {
+            value,
+            property: String(partition),
+          });
+        }
+        const slot = bitfieldSlot(index, partitionStorage, true);
+        if (slot === undefined) {
+          throw new EntityOutOfBoundsError(`Index ${index} out of bounds for partition ${String(partition)}`, {
+            entity: index,
+          });
+        }
+        const word = slot * words + field.word;
+        const mask = bitMask(bits) << field.shift;
+        partitionStorage[word] = ((partitionStorage[word] as number) & ~mask) | (bitfieldValue << field.shift);
+        return;
+      }
+      const length = vectorLengths.get(partition) ?? 1;
+      if (length > 1) {
+        const values = value as ArrayLike<number | bigint>;
+        if (values?.length !== length) {
+          const message = `Expected ${length} values for partition ${String(partition)}, got ${values?.length}`;
+          throw new ValueRangeError(message, { value, property: String(partition) });
+        }
+      }
+      // Only validate bounds for dense (non-sparse) storage
+      // Sparse storage handles bounds internally via SparseFacade
+      if (!sharedIndex && (index < 0 || index >= partitionStorage.length / length)) {
+        throw new EntityOutOfBoundsError(`Index ${index} out of bounds for partition ${String(partition)}`, {
+          entity: index,
+          max: partitionStorage.length / length - 1,
+        });
+      }
+      if (stringProperties.has(partition)) {
+        if (typeof value !== "string") {
+          throw new TypeError(`Value for string property ${String(partition)} must be a string, got ${typeof value}`);
+        }
+        sharedIndex?.ensure(index);
+        const previous = partitionStorage[index] as number;
+        partitionStorage[index] = this.#strings.intern(value);
+        this.#strings.release(previous);
+        return;
+      }
+      if (length > 1) {
+        const slot = sharedIndex ? sharedIndex.ensure(index) : index;
+        partitionStorage.set(value as never, slot * length);
+        return;
+      }
+      partitionStorage[index] = value as number | bigint;
+    };
+
+    const getEntity = (index: number, target: Record<string, unknown> = {}): Record<string, unknown> | undefined => {
+      validateEntityIndex(index);
+      if (sharedIndex ? sharedIndex.get(index) === undefined : index >= this.maxEntitiesPerPartition) {
+        return undefined;
+      }
+      for (const [key] of schemaEntries) {
+        const value = get(key, index);
+        const length = vectorLengths.get(key);
+        const existing = target[key as string];
+        if (length !== undefined && ArrayBuffer.isView(existing) && (existing as TypedArray).length === length) {
+          (existing as TypedArray).set(value as never);
+        } else {
+          target[key as string] = value;
+        }
+      }
+      return target;
+    };
+
+    const setEntity = (index: number, values: Record<string, unknown>): void => {
+      if (!isObject(values)) {
+        throw new TypeError(`Expected an object of schema values, got ${values === null ? "null" : typeof values}`);
+      }
+      for (const key of Object.keys(values)) {
+        if (!schemaEntries.some(([name]) => name === key)) {
+          throw new TypeError(`Unknown schema property ${key}`);
+        }
+      }
+      for (const [key, property] of schemaEntries) {
+        if (!Object.hasOwn(values, key)) {
+          throw new TypeError(`Missing schema property ${String(key)}`);
+        }
+        validateEntityValue(key as string, property, values[key as string]);
+      }
+      validateEntityIndex(index);
+      if (!sharedIndex && index >= this.maxEntitiesPerPartition) {
+        throw new EntityOutOfBoundsError(`Index ${index} out of bounds for partition storage`, {
+          entity: index,
+          max: this.maxEntitiesPerPartition - 1,
+        });
+      }
+      for (const [key] of schemaEntries) {
+        set(key, index, values[key as string] as never);
+      }
+    };
+
+    return { byteLength, byteOffset, partitions, get, set, getEntity, setEntity } as unknown as PartitionStorage<T>;
+  }
+
+  /**
+   * Validates partition parameters before creation
+   * @throws {DuplicatePartitionError} If the partition name exists
+   * @throws {SparseCapacityError} If `maxOwners` is not a positive integer
+   */
+  #validatePartitionParams<T extends SchemaSpec<T>>(
+    partition: Partition<T>,
+    name: string,
+    maxOwners: number | null,
+  ): void {
+    if (this.#partitions.has(partition)) return;
+
+    if (this.#partitionsByNames.has(name)) {
+      throw new DuplicatePartitionError(name);
+    }
+
+    if (maxOwners !== null && (!Number.isSafeInteger(maxOwners) || maxOwners <= 0)) {
+      throw new SparseCapacityError(
+        { partitionName: name, capacity: maxOwners },
+        "maxOwners must be a positive integer or null",
+      );
+    }
+  }
+
+  /**
+   * Calculates the total aligned size needed for a partition's schema or tag bitset
+   */
+  // deno-lint-ignore no-explicit-any
+  #getAlignedSize(partition: Partition<any>): number {
+    const { name, schema, maxOwners, alignment, layout } = partition;
+    if (schema) return this.#calculateAlignedSize(name, schema, maxOwners, alignment, layout);
+    const tagSize = getTagByteLength(this.maxEntitiesPerPartition);
+    return roundUp(tagSize, getPartitionAlignment(partition));
+  }
+
+  /**
+   * Calculate where `add()` leaves the offset after appending a partition at `offset`:
+   * each array starts on its property's alignment, and aligned partitions also reserve their trailing padding
+   */
+  // deno-lint-ignore no-explicit-any
+  #getEndOffset(partition: Partition<any>, offset: number): number {
+    const { schema, maxOwners, layout } = partition;
+    const alignedSize = this.#getAlignedSize(partition);
+    const alignment = getPartitionAlignment(partition);
+    const startOffset = offset;
+    if (!schema) {
+      offset = roundUp(offset, alignment) + getTagByteLength(this.maxEntitiesPerPartition);
+    } else {
+      const properties = schema as Record<string, SchemaProperty>;
+      const requested = partition.alignment as SchemaAlignment<Record<string, unknown>> | null;
+      const elements = maxOwners ?? this.maxEntitiesPerPartition;
+      const bitfields = getBitfieldLayout(properties);
+      let bitfieldsPlaced = false;
+      for (const [name, value] of getPropertyOrder(properties, requested, layout)) {
+        if (isBitfieldProperty(value)) {
+          if (bitfieldsPlaced) continue;
+          bitfieldsPlaced = true;
+        }
+        const perEntity = isBitfieldProperty(value) ? bitfields.words : getPropertyLength(value);
+        offset = roundUp(offset, getPropertyAlignment(name, value, requested, layout)) +
+          elements * perEntity * getPropertyType(value).BYTES_PER_ELEMENT;
+      }
+    }
+    return alignment > MIN_ALIGNMENT ? Math.max(offset, roundUp(startOffset, alignment) + alignedSize) : offset;
+  }
+
+  /**
+   * Calculates the total aligned size needed for a schema with validation
+   */
+  #calculateAlignedSize<T extends SchemaSpec<T>>(
+    partitionName: string,
+    schema: Schema<T>,
+    maxOwners: number | null = null,
+    alignment: SchemaAlignment<T> | null = null,
+    layout: SchemaLayout = "declared",
+  ): number {
+    if (!schema) return 0;
+
+    let alignedSize = 0;
+    let lastAlignment: number = MIN_ALIGNMENT;
+    const elements = maxOwners ?? this.maxEntitiesPerPartition;
+    // Bitfields share one array of packed words, placed at the first bitfield
+    const bitfields = getBitfieldLayout(schema as Record<string, SchemaProperty>);
+    let bitfieldsCounted = false;
+    const requested = alignment as SchemaAlignment<Record<string, unknown>> | null;
+
+    for (const [name, value] of getPropertyOrder(schema as Record<string, SchemaProperty>, requested, layout)) {
+      this.#validateSchemaEntry(partitionName, name, value);
+      if (isBitfieldProperty(value)) {
+        if (bitfieldsCounted) continue;
+        bitfieldsCounted = true;
+      }
+      const Ctr = getPropertyType(value);
+      const propertyAlignment = getPropertyAlignment(name, value, requested, layout);
+      const perEntity = isBitfieldProperty(value) ? bitfields.words : getPropertyLength(value);
+      const partitionSize = elements * perEntity * Ctr.BYTES_PER_ELEMENT;
+
+      // Validate partition size
+      if (partitionSize > MAX_PARTITION_SIZE) {
+        throw new PartitionOverflowError(
+          `Partition property "${name}" size (${partitionSize} bytes) exceeds maximum allowed (${MAX_PARTITION_SIZE} bytes)`,
+          { partitionName, required: partitionSize, available: MAX_PARTITION_SIZE },
+        );
+      }
+
+      // Track largest alignment for final size alignment
+      lastAlignment = Math.max(lastAlignment, propertyAlignment);
+
+      // Calculate aligned offset
+      const alignedOffset = roundUp(alignedSize, propertyAlignment);
+
+      // Check for overflow
+      if (alignedOffset < alignedSize || alignedOffset > Number.MAX_SAFE_INTEGER - partitionSize) {
+        throw new PartitionOverflowError(`Schema size calculation overflow at property "${name}"`, {
+          partitionName,
+          required: alignedOffset + partitionSize,
+          available: Number.MAX_SAFE_INTEGER,
+        });
+      }
+
+      alignedSize = alignedOffset + partitionSize;
+    }
+
+    // Ensure final size is aligned
+    const finalSize = (alignedSize + lastAlignment - 1) & ~(lastAlignment - 1);
+    if (finalSize < alignedSize) {
+      throw new PartitionOverflowError("Final size alignment overflow", {
+        partitionName,
+        required: alignedSize + lastAlignment,
+        available: Number.MAX_SAFE_INTEGER,
+      });
+    }
+
+    return finalSize;
+  }
+
+  /**
+   * Grow resizable memory so that `byteLength` bytes fit after the current offset.
+   * The memory at least doubles in size (up to `maxByteLength`) to amortise repeated growth.
+   * @throws {PartitionOverflowError} if the memory cannot grow enough
+   */
+  #grow(name: string, byteLength: number): void {
+    const memory = this.#memory;
+    const required = this.#offset + byteLength;
+    const growable = isSharedMemory(memory) ? memory.growable : memory.resizable;
+    if (!growable || required > memory.maxByteLength) {
+      throw new PartitionOverflowError(
+        `Cannot grow buffer to ${required} bytes (maxByteLength: ${memory.maxByteLength})`,
+        { partitionName: name, required: byteLength, available: this.getMaxFreeSpace() },
+      );
+    }
+    const newByteLength = Math.min(memory.maxByteLength, Math.max(required, memory.byteLength * 2));
+    if (isSharedMemory(memory)) {
+      memory.grow(newByteLength);
+    } else {
+      memory.resize(newByteLength);
+    }
+  }
+
+  /**
+   * Find the first released range that can hold a schema of the given aligned size
+   * @returns the index of the range in the free list, or -1 if none fits
+   */
+  #findFreeRange(alignedSize: number, alignment: number = MIN_ALIGNMENT): number {
+    for (let i = 0; i < this.#freeList.length; i++) {
+      const { byteOffset, byteLength } = this.#freeList[i]!;
+      const alignedOffset = roundUp(byteOffset, alignment);
+      if (alignedOffset + alignedSize <= byteOffset + byteLength) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Return a byte range to the free list, merging it with adjacent ranges.
+   * Ranges that reach the current offset are reclaimed by moving the offset back.
+   */
+  #releaseRange(byteOffset: number, byteLength: number): void {
+    if (byteLength <= 0) return;
+    let start = byteOffset;
+    let end = byteOffset + byteLength;
+
+    // Find the insertion point and absorb neighbouring ranges
+    let i = 0;
+    while (i < this.#freeList.length && this.#freeList[i]!.byteOffset < start) i++;
+    const prev = this.#freeList[i - 1];
+    if (prev && prev.byteOffset + prev.byteLength === start) {
+      start = prev.byteOffset;
+      this.#freeList.splice(--i, 1);
+    }
+    const next = this.#freeList[i];
+    if (next && next.byteOffset === end) {
+      end = next.byteOffset + next.byteLength;
+      this.#freeList.splice(i, 1);
+    }
+
+    if (end === this.#offset) {
+      this.#offset = start;
+    } else {
+      this.#freeList.splice(i, 0, { byteOffset: start, byteLength: end - start });
+    }
+  }
+
+  /**
+   * Resolve a key to a registered partition instance
+   */
+  // deno-lint-ignore no-explicit-any
+  #resolve(key: PartitionSpec<any> | Partition<any> | string): Partition<any> | undefined {
+    if (key instanceof Partition && this.#partitions.has(key)) return key;
+    const name = typeof key === "string" ? key : key.name;
+    for (const registered of this.#partitions.keys()) {
+      if (registered.name === name) return registered;
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a tag's bitset at the current offset
+   * @returns the tag storage, starting at `startOffset`
+   */
+  #createTagStorage(name: string, startOffset: number, alignment: number = Uint32Array.BYTES_PER_ELEMENT): TagStorage {
+    const byteLength = getTagByteLength(this.maxEntitiesPerPartition);
+    this.#alignOffset(name, alignment);
+    if (this.#offset + byteLength > this.#memory.byteLength) {
+      throw new PartitionOverflowError(`Buffer overflow: insufficient space for partition "${name}"`, {
+        partitionName: name,
+        required: byteLength,
+        available: this.#memory.byteLength - this.#offset,
+      });
+    }
+    const bits = new Uint32Array(this.#memory as ArrayBuffer, this.#offset, byteLength / Uint32Array.BYTES_PER_ELEMENT);
+    bits.fill(0);
+    this.#offset += byteLength;
+    return new TagStorage(bits, this.maxEntitiesPerPartition, startOffset);
+  }
+
+  /**
+   * Work out where `add()` would place a partition: the first released range that fits,
+   * otherwise the current offset, growing resizable memory if needed.
+   *
+   * Partitions aligned past `MIN_ALIGNMENT` also need the padding before their aligned start.
+   * Appended partitions only need the bytes up to the end of their last array.
+   */
+  // deno-lint-ignore no-explicit-any
+  #plan(partition: Partition<any>): Placement {
+    const { name } = partition;
+    const alignment = getPartitionAlignment(partition);
+    const alignedSize = this.#getAlignedSize(partition);
+    const freeRangeIndex = this.#findFreeRange(alignedSize, alignment);
+    const byteOffset = freeRangeIndex === -1 ? this.#offset : this.#freeList[freeRangeIndex]!.byteOffset;
+    const padding = roundUp(byteOffset, getLeadingAlignment(partition)) - byteOffset;
+
+    const required = freeRangeIndex === -1
+      ? this.#getEndOffset(partition, byteOffset) - byteOffset
+      : padding + alignedSize;
+    const grows = freeRangeIndex === -1 && required > this.getFreeSpace();
+    const shortfall = grows ? Math.max(0, required - this.getMaxFreeSpace()) : 0;
+    return {
+      name,
+      fits: shortfall === 0,
+      grows: grows && shortfall === 0,
+      byteOffset,
+      padding,
+      alignedSize,
+      shortfall,
+      alignment,
+      freeRangeIndex,
+      required,
+    };
+  }
+
+  /**
+   * Reserve a planned partition's bytes and create storage in them.
+   *
+   * Partitions aligned past `MIN_ALIGNMENT` also reserve the padding before their aligned start
+   * and after their aligned size, so no other partition shares their alignment blocks.
+   *
+   * @param placement - The partition's plan, from `#plan()`
+   * @param create - Creates the storage with the offset at the start of the reserved bytes
+   * @throws {PartitionOverflowError} If there isn't enough space
+   */
+  #allocate<R>(placement: Placement, create: (startOffset: number) => R): R {
+    const { name, fits, grows, alignedSize, shortfall, alignment, freeRangeIndex, required } = placement;
+    const isAligned = alignment > MIN_ALIGNMENT;
+    if (!fits) {
+      const available = this.getMaxFreeSpace();
+      const hint = `(Size: ${required}; Available: ${available}; Required: ${shortfall})`;
+      throw new PartitionOverflowError(`Not enough free space to add partition ${name} ${hint}`, {
+        partitionName: name,
+        required,
+        available,
+      });
+    }
+    if (grows) this.#grow(name, required);
+
+    // Reuse a released range if one fits, otherwise append at the end of the buffer
+    const endOffset = this.#offset;
+    const freeRange = freeRangeIndex === -1 ? null : this.#freeList[freeRangeIndex]!;
+    if (freeRange) this.#offset = freeRange.byteOffset;
+
+    const startOffset = this.#offset;
+    let result: R;
+    try {
+      result = create(startOffset);
+    } catch (error) {
+      // Storage that failed part-way must not leave its arrays' bytes allocated
+      this.#offset = endOffset;
+      throw error;
+    }
+    if (isAligned) this.#offset = Math.max(this.#offset, roundUp(startOffset, alignment) + alignedSize);
+
+    if (freeRange) {
+      const rangeEnd = freeRange.byteOffset + freeRange.byteLength;
+      if (this.#offset < rangeEnd) {
+        this.#freeList[freeRangeIndex] = { byteOffset: this.#offset, byteLength: rangeEnd - this.#offset };
+      } else {
+        this.#freeList.splice(freeRangeIndex, 1);
+      }
+      this.#offset = endOffset;
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a partition to the memory
+   * @param specOrPartition - The partition specification or instance to add
+   * @returns The partition storage, or a tag bitset if no schema was provided
+   * @throws {DuplicatePartitionError} If the partition name exists
+   * @throws {PartitionOverflowError} If there isn't enough space
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   */
+  add<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionStorage<T> {
+    // Convert spec to internal Partition instance
+    const partition = specOrPartition instanceof Partition ? specOrPartition : new Partition(specOrPartition);
+    const { name, schema = null, maxOwners = null, maxEntityId = null } = partition;
+
+    // Fast path for existing partitions
+    if (this.#partitions.has(partition)) {
+      return this.#partitions.get(partition) as PartitionStorage<T>;
+    }
+
+    // Validate parameters
+    this.#validatePartitionParams(partition, name, maxOwners);
+
+    const placement = this.#plan(partition);
+    const { alignment, alignedSize } = placement;
+    if (!schema) {
+      const tag = this.#allocate(placement, (startOffset) => this.#createTagStorage(name, startOffset, alignment));
+      this.#partitions.set(partition, tag);
+      this.#partitionsByNames.set(name, tag);
+      this.#version++;
+      return tag as PartitionStorage<T>;
+    }
+
+    // Create partitions
+    // Note: maxEntityId enables zero-allocation sparse storage when specified with maxOwners
+    const schemaEntries = Object.entries(schema) as [keyof T, SchemaProperty][];
+    const sharedIndex = maxOwners
+      ? new SparseIndex(maxOwners, { maxEntityId: maxEntityId ?? undefined, name })
+      : undefined;
+    const { layout } = partition;
+    const propertyAlignment = partition.alignment as SchemaAlignment<Record<string, unknown>> | null;
+    const propertyOrder = getPropertyOrder(schema as Record<string, SchemaProperty>, propertyAlignment, layout);
+    const [startOffset, partitions] = this.#allocate(placement, (startOffset) => {
+      let words: Uint32Array | undefined;
+      // Arrays are created in layout order, but keyed in declaration order
+      const arrays = new Map(propertyOrder.map((entry): [string, TypedArray] => {
+        const [key, value] = entry;
+        if (!isBitfieldProperty(value)) {
+          const property = entry as [keyof T, SchemaProperty];
+          return [
+            key,
+            this.#createPartition(name, property, maxOwners, maxEntityId, sharedIndex, propertyAlignment, layout)[1],
+          ];
+        }
+        words ??= this.#createBitfieldWords(
+          name,
+          schema as Record<string, SchemaProperty>,
+          maxOwners,
+          sharedIndex,
+          getPropertyAlignment(key, value, propertyAlignment, layout),
+        );
+        return [key, words];
+      }));
+      const partitions = Object.fromEntries(schemaEntries.map(([key]) => [key, arrays.get(String(key))!]));
+      return [startOffset, partitions as Record<keyof T, TypedArray>] as const;
+    });
+
+    // Create and store the partition storage, including the padding reserved around aligned partitions
+    const byteLength = alignment > MIN_ALIGNMENT
+      ? roundUp(startOffset, alignment) - startOffset + alignedSize
+      : alignedSize;
+    const result = this.#createStorage<T>(partitions, startOffset, byteLength, schemaEntries, sharedIndex);
+    this.#partitions.set(partition, result);
+    this.#partitionsByNames.set(name, result);
+    if (sharedIndex) this.#sparseIndexes.set(partition, sharedIndex);
+    this.#version++;
+
+    return result;
+  }
+
+  /**
+   * Check whether `add()` would succeed for a partition, without adding it
+   * @param specOrPartition - The partition specification or instance
+   * @returns `true` if the partition is registered, or its name is free and it fits
+   * @throws {InvalidPartitionSpecError} If the partition specification is invalid
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   */
+  canAdd<T extends SchemaSpec<T> | null = null>(specOrPartition: PartitionSpec<T> | Partition<T>): boolean {
+    const partition = specOrPartition instanceof Partition ? specOrPartition : new Partition(specOrPartition);
+    if (!this.#partitions.has(partition) && this.#partitionsByNames.has(partition.name)) return false;
+    return this.plan(partition).fits;
+  }
+
+  /**
+   * Work out where `add()` would place a partition, without adding it or changing any state
+   * @param specOrPartition - The partition specification or instance
+   * @returns The partition's plan; a registered instance reports its current placement
+   * @throws {InvalidPartitionSpecError} If the partition specification is invalid
+   * @throws {DuplicatePartitionError} If the partition name exists
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   */
+  plan<T extends SchemaSpec<T> | null = null>(specOrPartition: PartitionSpec<T> | Partition<T>): PartitionPlan {
+    const partition = specOrPartition instanceof Partition ? specOrPartition : new Partition(specOrPartition);
+    const storage = this.#partitions.get(partition);
+    if (storage) {
+      const { name } = partition;
+      const { byteOffset } = storage;
+      const padding = roundUp(byteOffset, getLeadingAlignment(partition)) - byteOffset;
+      const alignedSize = this.#getAlignedSize(partition);
+      return { name, fits: true, grows: false, byteOffset, padding, alignedSize, shortfall: 0 };
+    }
+    this.#validatePartitionParams(partition, partition.name, partition.maxOwners);
+    const { name, fits, grows, byteOffset, padding, alignedSize, shortfall } = this.#plan(partition);
+    return { name, fits, grows, byteOffset, padding, alignedSize, shortfall };
+  }
+
+  /**
+   * Calculate the bytes `add()` needs to add partitions in order to empty memory, without adding them
+   * @param specs - The partition specifications or instances
+   * @returns The end of the last partition, with each placed where `add()` would place it
+   * @throws {InvalidPartitionSpecError} If a partition specification is invalid
+   * @throws {DuplicatePartitionError} If two partitions have the same name
+   * @throws {InvalidSchemaError} If a schema contains invalid properties
+   * @throws {PartitionOverflowError} If a schema property is too large
+   */
+  // deno-lint-ignore no-explicit-any
+  requiredSize(specs: readonly (PartitionSpec<any> | Partition<any>)[]): number {
+    const names = new Set<string>();
+    let offset = 0;
+    for (const spec of specs) {
+      const partition = spec instanceof Partition ? spec : new Partition(spec);
+      const { name, maxOwners = null } = partition;
+      if (names.has(name)) {
+        throw new DuplicatePartitionError(name);
+      }
+      names.add(name);
+      this.#validatePartitionParams(partition, name, maxOwners);
+      offset = this.#getEndOffset(partition, offset);
+    }
+    return offset;
+  }
+
+  /**
+   * Compare the bytes partitions need in declaration order against a packed batch, without adding them
+   * @param specs - The partition specifications or instances, in the order they would be added
+   * @returns The bytes each layout needs, in total and per partition
+   * @throws {InvalidPartitionSpecError} If a partition specification is invalid
+   * @throws {DuplicatePartitionError} If two partitions have the same name
+   * @throws {InvalidSchemaError} If a schema contains invalid properties
+   */
+  // deno-lint-ignore no-explicit-any
+  packingReport(specs: readonly (PartitionSpec<any> | Partition<any>)[]): PackingReport {
+    const declared = specs.map((spec) => withLayout(spec, "declared"));
+    const packed = specs.map((spec) => withLayout(spec, "packed"));
+    const declaredBytes = this.requiredSize(declared);
+    const packedBytes = this.requiredSize(packPartitions(packed));
+    const partitions = declared.map((partition, i) => {
+      const declaredBytes = this.#getAlignedSize(partition);
+      const packedBytes = this.#getAlignedSize(packed[i]!);
+      return { name: partition.name, declaredBytes, packedBytes, savedBytes: declaredBytes - packedBytes };
+    });
+    return { declaredBytes, packedBytes, savedBytes: declaredBytes - packedBytes, partitions };
+  }
+
+  /**
+   * Register the partitions described by a layout without touching the memory's contents.
+   * @param layout - A layout produced by `getLayout()` over the same memory
+   * @throws {TypeError} If the layout is malformed or does not fit the memory
+   */
+  attach(layout: PartitionedBufferLayout): void {
+    if (!isObject(layout) || !Array.isArray(layout.partitions) || !Array.isArray(layout.freeList)) {
+      throw new TypeError("Invalid partition layout");
+    }
+    if (layout.maxEntitiesPerPartition !== this.maxEntitiesPerPartition) {
+      throw new TypeError(
+        `Layout maxEntitiesPerPartition (${layout.maxEntitiesPerPartition}) does not match buffer (${this.maxEntitiesPerPartition})`,
+      );
+    }
+    if (!isUint32(layout.offset) || layout.offset > this.#memory.byteLength) {
+      throw new TypeError(`Layout offset ${layout.offset} is outside the buffer`);
+    }
+
+    for (const entry of layout.partitions) {
+      const { name, maxOwners, maxEntityId, version = 0, alignment = null, layout = "declared" } = entry;
+      const { byteOffset, byteLength, properties } = entry;
+      if (!properties) {
+        const partition = new Partition<null>({
+          name,
+          maxOwners,
+          maxEntityId,
+          version,
+          alignment: alignment as number | null,
+          layout,
+        });
+        this.#validatePartitionParams(partition, name, maxOwners);
+        const bitsOffset = roundUp(byteOffset, getPartitionAlignment(partition));
+        const tagSize = getTagByteLength(this.maxEntitiesPerPartition);
+        if (bitsOffset + tagSize > this.#memory.byteLength) {
+          throw new TypeError(`Tag partition ${name} is outside the buffer`);
+        }
+        const bits = new Uint32Array(this.#memory as ArrayBuffer, bitsOffset, tagSize / Uint32Array.BYTES_PER_ELEMENT);
+        const tag = new TagStorage(bits, this.maxEntitiesPerPartition, byteOffset);
+        this.#partitions.set(partition, tag);
+        this.#partitionsByNames.set(name, tag);
+        continue;
+      }
+
+      const resolved = properties.map((property) => {
+        const Ctr = getLayoutConstructor(property.type);
+        if (!Ctr && property.type === "Float16Array") {
+          throw new UnsupportedSchemaError(
+            `Float16Array is not supported by this runtime (schema property "${property.name}")`,
+            { partitionName: name, property: property.name },
+          );
+        }
+        if (!Ctr) {
+          throw new UnsupportedSchemaError(`Unknown type ${property.type} for schema property "${property.name}"`, {
+            partitionName: name,
+            property: property.name,
+          });
+        }
+        if (property.byteOffset + property.length * Ctr.BYTES_PER_ELEMENT > this.#memory.byteLength) {
+          throw new TypeError(`Schema property "${property.name}" of partition ${name} is outside the buffer`);
+        }
+        return [property, Ctr] as const;
+      });
+      const schema = Object.fromEntries(
+        resolved.map(([{ name, type, initialValue, elementsPerEntity = 1, bits }, Ctr]) => {
+          if (isBitfieldType(type)) {
+            return [name, { kind: type, bits, initialValue } as BitfieldSchemaProperty];
+          }
+          if (type === "string") return [name, string];
+          if (elementsPerEntity > 1) return [name, { type: Ctr, length: elementsPerEntity }];
+          return [name, initialValue ? [Ctr, initialValue] : Ctr];
+        }),
+      );
+      // deno-lint-ignore no-explicit-any
+      const partition = new Partition<any>({ name, schema, maxOwners, maxEntityId, version, alignment, layout });
+      this.#validatePartitionParams(partition, name, maxOwners);
+
+      const sharedIndex = maxOwners
+        ? new SparseIndex(maxOwners, { maxEntityId: maxEntityId ?? undefined, name })
+        : undefined;
+      let words: Uint32Array | undefined;
+      const partitions = Object.fromEntries(resolved.map(([property, Ctr]) => {
+        const { elementsPerEntity = 1 } = property;
+        if (isBitfieldType(property.type)) {
+          // Bitfields share one view of their packed words
+          words ??= new Uint32Array(this.#memory as ArrayBuffer, property.byteOffset, property.length);
+          sharedIndex?.registerDenseArray(words, { stride: elementsPerEntity, initial: getBitfieldRecord(schema) });
+          return [property.name, words];
+        }
+        const typedArray = new Ctr(this.#memory as ArrayBuffer, property.byteOffset, property.length);
+        if (sharedIndex && elementsPerEntity > 1) {
+          sharedIndex.registerDenseArray(typedArray, { stride: elementsPerEntity });
+          return [property.name, typedArray];
+        }
+        if (!sharedIndex) return [property.name, typedArray];
+        const facade = sparseFacade(typedArray, maxEntityId ?? undefined, sharedIndex);
+        this.#registerSparseScalar(sharedIndex, typedArray, schema[property.name] as SchemaProperty);
+        return [property.name, facade];
+      }));
+
+      const schemaEntries = Object.entries(schema) as [string, SchemaProperty][];
+      const result = this.#createStorage(partitions, byteOffset, byteLength, schemaEntries, sharedIndex);
+      this.#partitions.set(partition, result);
+      this.#partitionsByNames.set(name, result);
+      if (sharedIndex) this.#sparseIndexes.set(partition, sharedIndex);
+    }
+
+    this.#freeList.push(...layout.freeList.map(({ byteOffset, byteLength }) => ({ byteOffset, byteLength })));
+    this.#offset = layout.offset;
+    this.#version++;
+  }
+
+  /**
+   * Clear the memory and release references.
+   */
+  clear(): void {
+    this.#partitions.forEach(clearAllPartitionArrays);
+    this.#strings.clear();
+    this.#partitions.clear();
+    this.#partitionsByNames.clear();
+    this.#sparseIndexes.clear();
+    this.#freeList.length = 0;
+    this.#offset = 0;
+    this.#version++;
+  }
+
+  /** Report where every partition and schema property lives, and how the memory is used */
+  describe(): BufferDescription {
+    const layout = this.getLayout();
+    let usedBytes = 0;
+    let paddingBytes = 0;
+
+    const partitions = layout.partitions.map(({ name, maxOwners, maxEntityId, byteOffset, byteLength, properties }) => {
+      let end = byteOffset;
+      if (!properties) {
+        // Tags are a bitset, aligned like any other array
+        const bitsLength = getTagByteLength(this.maxEntitiesPerPartition);
+        usedBytes += bitsLength;
+        paddingBytes += byteLength - bitsLength;
+        end += byteLength;
+      }
+      // Walk the arrays in memory order (packed layouts differ from declaration order)
+      const paddings = new Map<string, number>();
+      const byOffset = [...(properties ?? [])].sort((a, b) => a.byteOffset - b.byteOffset);
+      for (const property of byOffset) {
+        const Ctr = getLayoutConstructor(property.type)!;
+        const byteLength = property.length * Ctr.BYTES_PER_ELEMENT;
+        // Bitfields after the first share its packed words, so add nothing new
+        const isShared = property.byteOffset < end;
+        const padding = isShared ? 0 : property.byteOffset - end;
+        if (!isShared) {
+          end = property.byteOffset + byteLength;
+          usedBytes += byteLength;
+          paddingBytes += padding;
+        }
+        paddings.set(property.name, padding);
+      }
+      const described = (properties ?? []).map((property) => ({
+        name: property.name,
+        type: property.type,
+        length: property.length,
+        byteOffset: property.byteOffset,
+        byteLength: property.length * getLayoutConstructor(property.type)!.BYTES_PER_ELEMENT,
+        padding: paddings.get(property.name)!,
+      }));
+      // Aligned partitions reserve padding after their last array
+      const partition = this.#resolve(name);
+      const reservedEnd = partition ? this.#getStorageEnd(partition, this.#partitions.get(partition)!) : end;
+      if (reservedEnd > end) {
+        paddingBytes += reservedEnd - end;
+        end = reservedEnd;
+      }
+      return {
+        name,
+        isTag: properties === null,
+        isSparse: properties !== null && maxOwners !== null,
+        maxOwners,
+        maxEntityId,
+        byteOffset,
+        byteLength: end - byteOffset,
+        properties: described,
+      };
+    });
+
+    const released = layout.freeList.reduce((total, range) => total + range.byteLength, 0);
+    return {
+      byteLength: this.#memory.byteLength,
+      maxByteLength: this.#memory.maxByteLength,
+      maxEntitiesPerPartition: this.maxEntitiesPerPartition,
+      partitions,
+      usedBytes,
+      paddingBytes,
+      freeBytes: this.getFreeSpace() + released,
+    };
+  }
+
+  /** Report how the memory is used by each partition, and how full each sparse partition is */
+  stats(): BufferStats {
+    const { byteLength, usedBytes, paddingBytes, freeBytes, partitions: described } = this.describe();
+    let indexBytes = 0;
+    const partitions = described.map(({ name, isTag, byteLength, properties }): PartitionStats => {
+      // Bitfields share their packed words' array, so count each array once
+      const arrays = new Map(properties.map((property) => [property.byteOffset, property.byteLength]));
+      let used = isTag ? getTagByteLength(this.maxEntitiesPerPartition) : 0;
+      for (const length of arrays.values()) used += length;
+
+      const index = this.getSparseIndex(name);
+      let sparse: SparseStats | null = null;
+      if (index) {
+        sparse = {
+          capacity: index.capacity,
+          occupied: index.size,
+          highWater: index.highWater,
+          indexBytes: index.indexByteLength,
+        };
+        indexBytes += sparse.indexBytes;
+      }
+      return { name, isTag, byteLength, usedBytes: used, paddingBytes: byteLength - used, sparse };
+    });
+
+    return {
+      byteLength,
+      usedBytes,
+      paddingBytes,
+      freeBytes,
+      partitionCount: partitions.length,
+      tagCount: partitions.filter(({ isTag }) => isTag).length,
+      indexBytes,
+      partitions,
+    };
+  }
+
+  /**
+   * Iterate over the registered partitions and their storage in layout (byte offset) order
+   */
+  *entries(): IterableIterator<PartitionEntry> {
+    const entries = [...this.#partitions].sort(([, a], [, b]) => a.byteOffset - b.byteOffset);
+    for (const entry of entries) yield entry;
+  }
+
+  /** The amount of free space in bytes in the underlying memory */
+  getFreeSpace(): number {
+    return this.#memory.byteLength - this.#offset;
+  }
+
+  /** The amount of free space in bytes the memory could provide after growing to its `maxByteLength` */
+  getMaxFreeSpace(): number {
+    return this.#memory.maxByteLength - this.#offset;
+  }
+
+  /**
+   * Compute a stable fingerprint of the registered partitions: `maxEntitiesPerPartition`, then each partition's
+   * name, version, `maxOwners`, `maxEntityId`, schema signature, `alignment` (if set) and `layout` (if packed)
+   * in layout (byte offset) order, so a partition re-added into a freed range hashes where it lives.
+   * Byte offsets, the buffer size and the stored data are not included.
+   */
+  layoutHash(): string {
+    const parts = [`${this.maxEntitiesPerPartition}`];
+    for (const [partition] of this.entries()) {
+      const { name, version, maxOwners, maxEntityId, schema, alignment, layout } = partition;
+      const signature = schema ? getSchemaSignature(schema as Record<string, SchemaProperty>) : "tag";
+      let part = `${name}@${version}:${maxOwners ?? "-"}:${maxEntityId ?? "-"}{${signature}}`;
+      if (typeof alignment === "number") part += `~${alignment}`;
+      else if (alignment) part += `~{${Object.entries(alignment).map(([key, value]) => `${key}=${value}`).join(",")}}`;
+      if (layout === "packed") part += "~packed";
+      parts.push(part);
+    }
+    return hashString(parts.join("|"));
+  }
+
+  /** Describe where every partition lives in the memory */
+  getLayout(): PartitionedBufferLayout {
+    const partitions: PartitionLayout[] = [];
+    for (const [partition, storage] of this.#partitions) {
+      const { name, schema, maxOwners, maxEntityId, version, layout } = partition;
+      const alignment = isObject(partition.alignment) ? { ...partition.alignment } : partition.alignment;
+      if (storage instanceof TagStorage || !schema) {
+        const { byteOffset, byteLength } = storage;
+        partitions.push({
+          name,
+          maxOwners,
+          maxEntityId,
+          version,
+          byteOffset,
+          byteLength,
+          properties: null,
+          alignment,
+          layout,
+        });
+        continue;
+      }
+      const { words } = getBitfieldLayout(schema as Record<string, SchemaProperty>);
+      const properties = Object.entries(schema as Record<string, SchemaProperty>).map(([key, value]) => {
+        const array = storage.partitions[key as keyof typeof storage.partitions] as TypedArray;
+        const property: PropertyLayout = {
+          name: key,
+          type: isBitfieldProperty(value) || isStringProperty(value) ? value.kind : getPropertyType(value).name,
+          initialValue: getPropertyDefault(value),
+          byteOffset: array.byteOffset,
+          length: array.length,
+          elementsPerEntity: isBitfieldProperty(value) ? words : getPropertyLength(value),
+        };
+        if (isBitfieldProperty(value)) property.bits = value.bits;
+        return property;
+      });
+      const { byteOffset, byteLength } = storage;
+      partitions.push({ name, maxOwners, maxEntityId, version, byteOffset, byteLength, properties, alignment, layout });
+    }
+    return {
+      maxEntitiesPerPartition: this.maxEntitiesPerPartition,
+      offset: this.#offset,
+      freeList: this.#freeList.map(({ byteOffset, byteLength }) => ({ byteOffset, byteLength })),
+      partitions,
+    };
+  }
+
+  /**
+   * Restore a snapshot's partitions, contents, sparse mappings and string table into empty memory
+   * @param snapshot - A decoded snapshot
+   * @throws {TypeError} If the snapshot's layout is malformed or does not fit the memory
+   */
+  restore(snapshot: Snapshot): void {
+    this.attach(snapshot.layout);
+    new Uint8Array(this.#memory, 0, snapshot.data.length).set(snapshot.data);
+
+    // Dense slots are re-acquired, so copy each value from its old slot to its new one
+    for (const [name, entries] of snapshot.sparse) {
+      const index = this.getSparseIndex(name);
+      const storage = this.get<Record<string, number>>(name);
+      const partition = this.#resolve(name);
+      if (!index || !storage || !partition?.schema) continue;
+      // Vector properties and bitfield words are stored as raw arrays with several elements per slot
+      const arrays = this.#getEntityArrays(partition, storage);
+      const sources = arrays.map(([dense]) => dense.slice());
+      for (const [dense, stride, , initial] of arrays) fillSlots(dense, initial, 0, dense.length / stride);
+      for (const [entity, slot] of entries) {
+        const idx = index.ensure(entity);
+        for (let i = 0; i < arrays.length; i++) {
+          const [dense, stride] = arrays[i]!;
+          dense.set(sources[i]!.subarray(slot * stride, (slot + 1) * stride) as never, idx * stride);
+        }
+      }
+    }
+
+    this.#strings.load(snapshot.strings);
+  }
+
+  /** Capture the memory's layout, contents, sparse mappings and string table */
+  snapshot(): Snapshot {
+    const memory = this.#memory;
+    const resizable = isSharedMemory(memory) ? memory.growable : memory.resizable;
+    const sparse = new Map<string, [number, number][]>();
+    for (const [partition, index] of this.#sparseIndexes) {
+      const entries: [number, number][] = [];
+      index.forEach((entity, slot) => entries.push([entity, slot]));
+      sparse.set(partition.name, entries);
+    }
+    return {
+      byteLength: memory.byteLength,
+      maxByteLength: resizable ? memory.maxByteLength : null,
+      layout: this.getLayout(),
+      data: new Uint8Array(memory, 0, this.#offset),
+      sparse,
+      strings: [...this.#strings.entries()],
+    };
+  }
+
+  /**
+   * Copy an entity's values and tags to another entity
+   * @param from - The entity to copy
+   * @param to - The entity to overwrite
+   * @param keys - The partitions to copy [default = every partition]
+   */
+  copyEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#transferEntity("copy", from, to, keys);
+  }
+
+  /**
+   * Move an entity's values and tags to another entity, clearing the source
+   * @param from - The entity to move
+   * @param to - The entity to overwrite
+   * @param keys - The partitions to move [default = every partition]
+   */
+  moveEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#transferEntity("move", from, to, keys);
+  }
+
+  /**
+   * Exchange two entities' values and tags
+   * @param a - The first entity
+   * @param b - The second entity
+   * @param keys - The partitions to swap [default = every partition]
+   */
+  swapEntities(a: number, b: number, keys?: EntityPartitionKey[]): void {
+    this.#transferEntity("swap", a, b, keys);
+  }
+
+  /**
+   * Copy, move or swap two entities across partitions.
+   *
+   * Both entities, and the sparse capacity a copy needs, are checked against every selected partition
+   * before anything changes. Tags copy membership, sparse partitions update their `SparseIndex` mapping and dense partitions
+   * copy their slots. Vacated dense slots are reset to their defaults; string handles are retained and released as they are copied.
+   *
+   * @throws {TypeError} If an entity is not a safe integer
+   * @throws {RangeError} If an entity is out of bounds for a selected partition
+   * @throws {SparseCapacityError} If a copy needs a slot in a full sparse partition
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   */
+  #transferEntity(mode: "copy" | "move" | "swap", a: number, b: number, keys?: EntityPartitionKey[]): void {
+    const entries = this.#resolveEntries(keys);
+    this.#validateEntity(a, entries);
+    this.#validateEntity(b, entries);
+    // Moves and swaps reuse the source's slots, so only copies can need new ones
+    if (mode === "copy") this.#checkSparseCapacity(a, b, entries);
+
+    for (const [partition, storage] of entries) {
+      if (storage instanceof TagStorage) {
+        const setTag = (entity: number, tagged: boolean) => tagged ? storage.add(entity) : storage.remove(entity);
+        const hasA = storage.has(a);
+        const hasB = storage.has(b);
+        if (mode === "swap") {
+          setTag(a, hasB);
+          setTag(b, hasA);
+        } else {
+          setTag(b, hasA);
+          if (mode === "move" && a !== b) setTag(a, false);
+        }
+        continue;
+      }
+      const index = this.#sparseIndexes.get(partition);
+      if (index) {
+        index[mode](a, b);
+        continue;
+      }
+      if (a === b) continue;
+      for (const [array, stride, isString, initial] of this.#getEntityArrays(partition, storage)) {
+        const start = a * stride;
+        const target = b * stride;
+        if (mode === "swap") {
+          for (let i = 0; i < stride; i++) {
+            const value = array[start + i]!;
+            array[start + i] = array[target + i]!;
+            array[target + i] = value;
+          }
+          continue;
+        }
+        if (isString) {
+          this.#strings.retain(array[start] as number);
+          this.#strings.release(array[target] as number);
+        }
+        array.copyWithin(target, start, start + stride);
+        if (mode === "move") {
+          if (isString) this.#strings.release(array[start] as number);
+          fillSlots(array, initial, a, a + 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * Restore an entity's schema property values to their declared defaults.
+   *
+   * Dense slots and owned sparse slots are reset and their strings released.
+   * Tag membership and sparse ownership are unchanged; use `reset()` to empty the whole buffer.
+   *
+   * @param entity - The entity to reset
+   * @param keys - The partitions to reset [default = every partition]
+   * @throws {TypeError} If the entity is not a safe integer
+   * @throws {RangeError} If the entity is out of bounds for a selected partition
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   */
+  resetEntity(entity: number, keys?: EntityPartitionKey[]): void {
+    const entries = this.#resolveEntries(keys);
+    this.#validateEntity(entity, entries);
+
+    for (const [partition, storage] of entries) {
+      if (storage instanceof TagStorage) continue;
+      const index = this.#sparseIndexes.get(partition);
+      if (index) {
+        index.reset(entity);
+        continue;
+      }
+      for (const [array, stride, isString, initial] of this.#getEntityArrays(partition, storage)) {
+        if (isString) this.#strings.release(array[entity * stride] as number);
+        fillSlots(array, initial, entity, entity + 1);
+      }
+    }
+  }
+
+  /**
+   * Return every partition to its state when it was added, keeping the layout.
+   *
+   * Dense properties are filled with their declared defaults, sparse partitions release every entity,
+   * tags are emptied and the string table is cleared.
+   */
+  reset(): void {
+    for (const [partition, storage] of this.#partitions) {
+      if (storage instanceof TagStorage) {
+        storage.clear();
+        continue;
+      }
+      const index = this.#sparseIndexes.get(partition);
+      if (index) {
+        index.clear();
+        continue;
+      }
+      for (const [array, , , initial] of this.#getEntityArrays(partition, storage)) {
+        fillSlots(array, initial, 0, this.maxEntitiesPerPartition);
+      }
+    }
+    this.#strings.clear();
+  }
+
+  /**
+   * Resolve the partitions an entity operation applies to
+   * @param keys - The partitions to select [default = every partition]
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   */
+  #resolveEntries(keys?: EntityPartitionKey[]): PartitionEntry[] {
+    if (!keys) return [...this.#partitions];
+    return keys.map((key) => {
+      if (!key) throw new TypeError("key must be a string or PartitionSpec");
+      const partition = this.#resolve(key);
+      if (!partition) throw new PartitionNotFoundError(typeof key === "string" ? key : key.name);
+      return [partition, this.#partitions.get(partition)!] as PartitionEntry;
+    });
+  }
+
+  /**
+   * Check an entity fits every selected partition
+   * @throws {TypeError} If the entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} If the entity is negative or out of bounds for a partition
+   */
+  #validateEntity(entity: number, entries: PartitionEntry[]): void {
+    validateEntityIndex(entity);
+    for (const [partition] of entries) {
+      const isSparse = this.#sparseIndexes.has(partition);
+      const max = isSparse ? partition.maxEntityId : this.maxEntitiesPerPartition - 1;
+      if (max !== null && entity > max) {
+        throw new EntityOutOfBoundsError(`Entity ${entity} out of bounds [0, ${max}] for partition ${partition.name}`, {
+          entity,
+          max,
+          partitionName: partition.name,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check every selected sparse partition has a free slot if copying an entity would add the target to it
+   * @throws {SparseCapacityError} If a sparse partition is full
+   */
+  #checkSparseCapacity(from: number, to: number, entries: PartitionEntry[]): void {
+    if (from === to) return;
+    for (const [partition] of entries) {
+      const index = this.#sparseIndexes.get(partition);
+      if (!index || index.get(from) === undefined || index.get(to) !== undefined) continue;
+      if (index.size >= index.capacity) {
+        throw new SparseCapacityError({ partitionName: partition.name, capacity: index.capacity, entity: to });
+      }
+    }
+  }
+
+  /**
+   * Get a partition's arrays, each with the number of elements per entity, whether it holds string handles
+   * and one entity's default values. Bitfields' shared packed words are listed once and sparse scalars
+   * are listed by their dense arrays.
+   */
+  #getEntityArrays(
+    // deno-lint-ignore no-explicit-any
+    partition: Partition<any>,
+    // deno-lint-ignore no-explicit-any
+    storage: SchemaStorage<any>,
+  ): [TypedArray, number, boolean, TypedArray][] {
+    const schema = partition.schema as Record<string, SchemaProperty>;
+    const record = getBitfieldRecord(schema);
+    const isSparse = this.#sparseIndexes.has(partition);
+    const arrays = new Map<TypedArray, [TypedArray, number, boolean, TypedArray]>();
+    for (const [key, property] of Object.entries(schema)) {
+      let array = storage.partitions[key] as TypedArray;
+      if (isBitfieldProperty(property)) {
+        arrays.set(array, [array, record.length, false, record]);
+        continue;
+      }
+      const stride = getPropertyLength(property);
+      if (isSparse && stride === 1) array = (array as unknown as SparseFacade<TypedArray>).dense;
+      const initial = new (getPropertyType(property))(stride);
+      if (stride === 1) initial[0] = getPropertyDefault(property);
+      arrays.set(array, [array, stride, isStringProperty(property), initial]);
+    }
+    return [...arrays.values()];
+  }
+
+  /**
+   * Get a partition by name or spec
+   * @param key - The partition name or spec to retrieve
+   * @returns The partition storage if found, undefined otherwise
+   * @throws {TypeError} If key is null or undefined
+   */
+  get<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): PartitionStorage<T> | undefined {
+    if (!key) {
+      throw new TypeError("key must be a string or PartitionSpec");
+    }
+    if (typeof key === "string") {
+      return this.#partitionsByNames.get(key) as PartitionStorage<T> | undefined;
+    }
+    if (key instanceof Partition) {
+      return this.#partitions.get(key) as PartitionStorage<T> | undefined;
+    }
+    return this.#partitionsByNames.get(key.name) as PartitionStorage<T> | undefined;
+  }
+
+  /**
+   * Get the entity-to-dense index mapping of a sparse partition
+   * @param key - The partition name, spec or instance
+   * @returns The sparse index, or undefined if the partition does not exist or is dense
+   */
+  getSparseIndex<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): SparseIndex | undefined {
+    const partition = this.#resolve(key);
+    return partition ? this.#sparseIndexes.get(partition) : undefined;
+  }
+
+  /** Get the current offset into the underlying memory */
+  getOffset(): number {
+    return this.#offset;
+  }
+
+  /**
+   * Check if a partition exists
+   * @param key - The partition name or spec to check
+   * @returns True if the partition exists, false otherwise
+   */
+  has<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean {
+    if (!key) {
+      throw new TypeError("key must be a string or PartitionSpec");
+    }
+    if (typeof key === "string") {
+      return this.#partitionsByNames.has(key);
+    }
+    if (key instanceof Partition) {
+      return this.#partitions.has(key);
+    }
+    return this.#partitionsByNames.has(key.name);
+  }
+
+  /**
+   * Remove a partition, zeroing its arrays and returning its bytes to the free list
+   * @param key - The partition name, spec or instance to remove
+   * @returns `true` if the partition was removed, `false` if it did not exist
+   * @throws {TypeError} If key is null or undefined
+   */
+  remove<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean {
+    if (!key) {
+      throw new TypeError("key must be a string or PartitionSpec");
+    }
+
+    const partition = this.#resolve(key);
+    if (!partition) return false;
+
+    const storage = this.#partitions.get(partition)!;
+
+    // Dense string handles are released here; sparse ones are released as the index is cleared
+    if (!(storage instanceof TagStorage) && partition.schema && !this.#sparseIndexes.has(partition)) {
+      for (const [key, value] of Object.entries(partition.schema as Record<string, SchemaProperty>)) {
+        if (!isStringProperty(value)) continue;
+        for (const handle of storage.partitions[key as keyof typeof storage.partitions] as Uint32Array) {
+          if (handle) this.#strings.release(handle);
+        }
+      }
+    }
+
+    this.#partitions.delete(partition);
+    this.#partitionsByNames.delete(partition.name);
+    this.#sparseIndexes.delete(partition);
+    this.#version++;
+
+    clearAllPartitionArrays(storage);
+    // Release everything up to the end of the partition, including alignment padding
+    this.#releaseRange(storage.byteOffset, this.#getStorageEnd(partition, storage) - storage.byteOffset);
+
+    return true;
+  }
+
+  /**
+   * Get the end of the bytes a partition occupies: the end of its last array,
+   * or of the padding reserved after a partition aligned past `MIN_ALIGNMENT`
+   */
+  // deno-lint-ignore no-explicit-any
+  #getStorageEnd(partition: Partition<any>, storage: PartitionStorage<any>): number {
+    let end = storage.byteOffset + (storage instanceof TagStorage ? storage.byteLength : 0);
+    if (!(storage instanceof TagStorage)) {
+      for (const key in storage.partitions) {
+        const array = storage.partitions[key as keyof typeof storage.partitions] as TypedArray;
+        end = Math.max(end, array.byteOffset + array.byteLength);
+      }
+    }
+    const alignment = getPartitionAlignment(partition);
+    if (alignment > MIN_ALIGNMENT) {
+      end = Math.max(end, roundUp(storage.byteOffset, alignment) + this.#getAlignedSize(partition));
+    }
+    return end;
+  }
+
+  /**
+   * Validates schema entry values
+   * @throws {InvalidSchemaError} If the schema entry is invalid
+   * @throws {UnsupportedSchemaError} If the schema entry is a string property in shared memory
+   */
+  #validateSchemaEntry(partitionName: string, name: string, value: SchemaProperty): void {
+    const Ctr = getPropertyType(value);
+    const initialValue = getPropertyDefault(value);
+    const details = { partitionName, property: name };
+
+    if (!isTypedArrayConstructor(Ctr)) {
+      throw new InvalidSchemaError(`Invalid type for schema property "${name}"`, details);
+    }
+
+    if (isStringProperty(value) && isSharedMemory(this.#memory)) {
+      throw new UnsupportedSchemaError(
+        `String properties are not supported in shared memory (schema property "${name}")`,
+        details,
+      );
+    }
+
+    if (isVectorProperty(value) && (!Number.isSafeInteger(value.length) || value.length <= 0)) {
+      throw new InvalidSchemaError(`Invalid length ${value.length} for schema property "${name}"`, details);
+    }
+
+    if (Array.isArray(value) && !isValidTypedArrayValue(Ctr, initialValue)) {
+      throw new InvalidSchemaError(
+        `Invalid initial value ${initialValue} for schema property "${name}" of type ${Ctr.name}`,
+        details,
+      );
+    }
+  }
+}
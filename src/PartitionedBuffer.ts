@@ -5,418 +5,358 @@
  * @module      PartitionedBuffer
  */
 
-import { Partition, type PartitionSpec, type PartitionStorage } from "./Partition.ts";
-import type { Schema, SchemaProperty, SchemaSpec } from "./Schema.ts";
-import { sparseFacade, SparseIndex } from "./SparseFacade.ts";
 import {
-  isTypedArrayConstructor,
-  isUint32,
-  isValidTypedArrayValue,
-  type TypedArray,
-  type TypedArrayConstructor,
-  zeroArray,
-} from "./utils.ts";
+  type BatchOptions,
+  type BufferDescription,
+  type BufferStats,
+  type EntityPartitionKey,
+  MAX_PARTITION_SIZE,
+  MIN_ALIGNMENT,
+  type PackingReport,
+  packPartitions,
+  type PartitionedBufferLayout,
+  type PartitionedBufferOptions,
+  type PartitionEntry,
+  type PartitionPlan,
+  validateBufferArgs,
+} from "./Layout.ts";
+import { type MigrateOptions, migratePartitions } from "./Migration.ts";
+import type { Partition, PartitionSpec, PartitionStorage, PartitionStorages } from "./Partition.ts";
+import type { PartitionedMemory } from "./PartitionedMemory.ts";
+import { PartitionRegistry } from "./PartitionRegistry.ts";
+import { Query, type QuerySpec } from "./Query.ts";
+import type { SchemaSpec } from "./Schema.ts";
+import { decodeSnapshot, encodeSnapshot } from "./Snapshot.ts";
+import type { StringTable } from "./StringTable.ts";
+
+export type { BatchOptions, PackingReport, PartitionedBufferOptions, PartitionPlan };
 
 /**
- * Clear all partitions in a buffer
- * @param partition the partition to clear
- * @returns the partition
- * @note Uses for...in to avoid Object.values() allocation
+ * A PartitionedBuffer is an ArrayBuffer with named storage partitions.
+ *
+ * It implements the `PartitionedMemory` partition API, which it shares with `SharedPartitionedBuffer`.
  */
-function clearAllPartitionArrays<T extends SchemaSpec<T>>(
-  partition: PartitionStorage<T> | null,
-): PartitionStorage<T> | null {
-  if (!partition) return null;
-  // Use for...in to avoid Object.values() allocation
-  for (const key in partition.partitions) {
-    if (Object.prototype.hasOwnProperty.call(partition.partitions, key)) {
-      zeroArray(partition.partitions[key as keyof typeof partition.partitions]);
-    }
-  }
-  return partition;
-}
-
-/** A PartitionedBuffer is an ArrayBuffer with named storage partitions. */
-export class PartitionedBuffer extends ArrayBuffer {
+export class PartitionedBuffer extends ArrayBuffer implements PartitionedMemory {
   /** Minimum alignment in bytes for TypedArrays */
-  static readonly MIN_ALIGNMENT = 8 as const;
+  static readonly MIN_ALIGNMENT = MIN_ALIGNMENT;
 
   /** Maximum safe partition size to prevent allocation errors */
-  static readonly MAX_PARTITION_SIZE = 1073741824 as const; // 1GB (1024 * 1024 * 1024)
+  static readonly MAX_PARTITION_SIZE = MAX_PARTITION_SIZE;
 
   /** The maximum possible number of owners per partition */
   readonly maxEntitiesPerPartition: number;
 
-  /** The partitions in the buffer */
-  // deno-lint-ignore no-explicit-any
-  readonly #partitions: Map<Partition<any>, PartitionStorage<any> | null>;
-
-  /** A map of all partition names for fast lookup */
-  // deno-lint-ignore no-explicit-any
-  readonly #partitionsByNames: Map<string, PartitionStorage<any> | null>;
-
-  /** Tag partition metadata by name */
-  readonly #tagMetaByName: Map<string, { byteLength: number; byteOffset: number }>;
-
-  /** Tag partition metadata by partition */
-  // deno-lint-ignore no-explicit-any
-  readonly #tagMetaByPartition: Map<Partition<any>, { byteLength: number; byteOffset: number }>;
-
-  /** The current offset into the underlying ArrayBuffer */
-  #offset: number;
+  /** Partition allocation and bookkeeping for the buffer */
+  readonly #registry: PartitionRegistry;
 
   /**
    * Create a new PartitionedBuffer
    * @param size the size of the buffer
    * @param maxEntitiesPerPartition the length of each row in the buffer [min = 8]
-   * @throws {SyntaxError} if `size` or `maxEntitiesPerPartition` are not numbers
+   * @param options optional buffer options (e.g., `maxByteLength` for a growable buffer)
+   * @throws {InvalidBufferOptionsError} if `size` or `maxEntitiesPerPartition` are not numbers
    *   or if `size` or `maxEntitiesPerPartition` are not positive safe integers
    *   or if `size` is not a multiple of `maxEntitiesPerPartition`
+   *   or if `maxByteLength` is not a Uint32 number >= `size`
    */
-  constructor(size: number, maxEntitiesPerPartition: number = size) {
-    // Validate size
-    if (!isUint32(size)) {
-      throw new SyntaxError("size must be a Uint32 number");
-    } else if (size === 0) {
-      throw new SyntaxError("size must be > 0");
-    }
-
-    // Additional validation only when maxEntitiesPerPartition differs from size
-    if (maxEntitiesPerPartition !== size) {
-      if (!isUint32(maxEntitiesPerPartition)) {
-        throw new SyntaxError("maxEntitiesPerPartition must be a Uint32 number");
-      } else if (size % maxEntitiesPerPartition !== 0) {
-        throw new SyntaxError("size must be a multiple of maxEntitiesPerPartition");
-      }
-    }
-
-    // Validate maxEntitiesPerPartition minimum ALWAYS (alignment requirement)
-    // This check must come after the Uint32 validation to ensure proper error messages
-    if (maxEntitiesPerPartition < 8) {
-      throw new SyntaxError(
-        "maxEntitiesPerPartition must be at least 8 to accommodate all possible TypedArray alignments",
-      );
-    }
-
-    super(size);
-    this.#partitions = new Map();
-    this.#partitionsByNames = new Map();
-    this.#tagMetaByName = new Map();
-    this.#tagMetaByPartition = new Map();
-    this.#offset = 0;
+  constructor(size: number, maxEntitiesPerPartition: number = size, options: PartitionedBufferOptions = {}) {
+    validateBufferArgs(size, maxEntitiesPerPartition, options);
+    super(size, { maxByteLength: options.maxByteLength });
+    this.#registry = new PartitionRegistry(this, maxEntitiesPerPartition);
     this.maxEntitiesPerPartition = maxEntitiesPerPartition;
   }
 
-  #alignOffset(alignment: number): void {
-    const oldOffset = this.#offset;
-    // Ensure minimum alignment and power of 2
-    alignment = Math.max(alignment, PartitionedBuffer.MIN_ALIGNMENT);
-    if ((alignment & (alignment - 1)) !== 0) {
-      throw new RangeError(`Alignment must be a power of 2, got ${alignment}`);
-    }
-    if (this.#offset + alignment > this.byteLength) {
-      throw new RangeError("Insufficient space for alignment");
-    }
-
-    this.#offset = (oldOffset + alignment - 1) & ~(alignment - 1);
-
-    if (this.#offset < oldOffset) {
-      throw new RangeError("Alignment calculation overflow");
+  /**
+   * Rebuild a buffer from bytes produced by `serialize()`
+   * @param bytes - The serialized buffer
+   * @returns A buffer with the same partitions, contents and sparse mappings
+   * @throws {InvalidSnapshotError} If the bytes are not a valid snapshot
+   * @throws {TypeError} If the snapshot's partition table doesn't fit its buffer
+   */
+  static deserialize(bytes: Uint8Array | ArrayBuffer): PartitionedBuffer {
+    const snapshot = decodeSnapshot(bytes);
+    const { byteLength, maxByteLength, layout } = snapshot;
+    const { maxEntitiesPerPartition } = layout;
+    if (maxByteLength === null) {
+      const buffer = new PartitionedBuffer(byteLength, maxEntitiesPerPartition);
+      buffer.#registry.restore(snapshot);
+      return buffer;
     }
+    // A grown buffer may not be a multiple of maxEntitiesPerPartition, so create it smaller and resize
+    const size = Math.max(maxEntitiesPerPartition, byteLength - (byteLength % maxEntitiesPerPartition));
+    const buffer = new PartitionedBuffer(size, maxEntitiesPerPartition, { maxByteLength });
+    buffer.resize(byteLength);
+    buffer.#registry.restore(snapshot);
+    return buffer;
   }
 
-  #createPartition<T extends SchemaSpec<T> | null>(
-    [name, value]: [keyof T, SchemaProperty],
-    maxOwners: number | null = null,
-    maxEntityId: number | null = null,
-    sharedIndex?: SparseIndex,
-  ): [keyof T, TypedArray] {
-    // Validate schema entry
-    this.#validateSchemaEntry(String(name), value);
-
-    const Ctr: TypedArrayConstructor = Array.isArray(value) ? value[0] : value;
-    const initialValue: number = Array.isArray(value) ? value[1] : 0;
-    const bytesPerElement = Ctr.BYTES_PER_ELEMENT;
-
-    // Pre-calculate required space
-    // Use maxOwners if specified (for sparse storage), otherwise maxEntitiesPerPartition
-    const elements = maxOwners ?? this.maxEntitiesPerPartition;
-    const requiredBytes = elements * bytesPerElement;
-
-    // Validate size
-    if (requiredBytes > PartitionedBuffer.MAX_PARTITION_SIZE) {
-      throw new RangeError(
-        `Partition "${
-          String(name)
-        }" size (${requiredBytes} bytes) exceeds maximum allowed (${PartitionedBuffer.MAX_PARTITION_SIZE} bytes)`,
-      );
-    }
-
-    try {
-      this.#alignOffset(bytesPerElement);
-    } catch (error) {
-      throw new Error(`Failed to align partition "${String(name)}": ${(error as Error).message}`);
-    }
-
-    if (this.#offset + requiredBytes > this.byteLength) {
-      const available = this.byteLength - this.#offset;
-      throw new Error(
-        `Buffer overflow: insufficient space for partition "${String(name)}"\n` +
-          `Required: ${requiredBytes} bytes\n` +
-          `Available: ${available} bytes\n` +
-          `Missing: ${requiredBytes - available} bytes`,
-      );
-    }
-
-    // Create array at aligned offset
-    let typedArray: TypedArray;
-    try {
-      typedArray = new Ctr(this, this.#offset, elements);
-      typedArray.fill(initialValue);
-    } catch (error) {
-      throw new Error(
-        `Failed to create TypedArray for partition "${String(name)}": ${(error as Error).message}`,
-      );
-    }
-
-    this.#offset += requiredBytes;
-
-    // Wrap with SparseFacade if maxOwners is specified
-    // Use zero-allocation mode if maxEntityId is also specified
-    if (maxOwners) {
-      return [name, sparseFacade(typedArray, maxEntityId ?? undefined, sharedIndex)];
-    }
-    return [name, typedArray];
+  /**
+   * Calculate how big a buffer must be to hold partitions, with the same alignment `addPartition()` uses
+   * @param specs - The partition specifications or instances, in the order they will be added
+   * @param maxEntitiesPerPartition - The buffer's `maxEntitiesPerPartition`
+   * @param options - `{ layout: "packed" }` to size the partitions as `fromSpecs()` packs them
+   * @returns The smallest valid buffer size (a multiple of `maxEntitiesPerPartition`) that fits every partition
+   * @throws {InvalidBufferOptionsError} If `maxEntitiesPerPartition` is invalid
+   * @throws {InvalidPartitionSpecError} If a partition specification is invalid
+   * @throws {DuplicatePartitionError} If two partitions have the same name
+   * @throws {InvalidSchemaError} If a schema contains invalid properties
+   * @throws {PartitionOverflowError} If a schema property is too large
+   *
+   * @example ```
+   * const size = PartitionedBuffer.requiredSize([position, velocity, isAlive], 1024);
+   * const buffer = new PartitionedBuffer(size, 1024);
+   * ```
+   */
+  static requiredSize(
+    // deno-lint-ignore no-explicit-any
+    specs: readonly (PartitionSpec<any> | Partition<any>)[],
+    maxEntitiesPerPartition: number,
+    options: BatchOptions = {},
+  ): number {
+    validateBufferArgs(maxEntitiesPerPartition, maxEntitiesPerPartition, {});
+    const partitions = options.layout === "packed" ? packPartitions(specs) : specs;
+    const size = new PartitionRegistry(new ArrayBuffer(0), maxEntitiesPerPartition).requiredSize(partitions);
+    return Math.max(1, Math.ceil(size / maxEntitiesPerPartition)) * maxEntitiesPerPartition;
   }
 
   /**
-   * Validates partition parameters before creation
-   * @throws {Error} If validation fails
+   * Create a buffer exactly big enough for a set of partitions and add them, in key order
+   * @param specs - The partition specifications or instances, keyed by the name to return their storage under
+   * @param maxEntitiesPerPartition - The buffer's `maxEntitiesPerPartition`
+   * @param options - `{ layout: "packed" }` to pack each instance and spec without a `layout`, and add them by
+   *   descending alignment
+   * @returns The buffer, and each partition's storage under the same key as its spec
+   * @throws {InvalidBufferOptionsError} If `maxEntitiesPerPartition` is invalid
+   * @throws {InvalidPartitionSpecError} If a partition specification is invalid
+   * @throws {DuplicatePartitionError} If two partitions have the same name
+   * @throws {InvalidSchemaError} If a schema contains invalid properties
+   *
+   * @example ```
+   * const { buffer, partitions } = PartitionedBuffer.fromSpecs({ position, isAlive }, 1024);
+   * partitions.position.set("x", 0, 1); // SchemaStorage<Vec2>
+   * partitions.isAlive.add(0); // TagStorage
+   * ```
    */
-  #validatePartitionParams<T extends SchemaSpec<T>>(
-    partition: Partition<T>,
-    name: string,
-    maxOwners: number | null,
-  ): void {
-    if (this.#partitions.has(partition)) return;
-
-    if (this.#partitionsByNames.has(name)) {
-      throw new Error(`Partition name ${name} already exists`);
-    }
-
-    if (maxOwners !== null && (!Number.isSafeInteger(maxOwners) || maxOwners <= 0)) {
-      throw new Error("maxOwners must be a positive integer or null");
-    }
+  // deno-lint-ignore no-explicit-any
+  static fromSpecs<const S extends Record<string, PartitionSpec<any> | Partition<any>>>(
+    specs: S,
+    maxEntitiesPerPartition: number,
+    options: BatchOptions = {},
+  ): { buffer: PartitionedBuffer; partitions: PartitionStorages<S> } {
+    const entries = Object.entries(specs);
+    const list = entries.map(([, spec]) => spec);
+    const ordered = options.layout === "packed" ? packPartitions(list) : list;
+    const size = PartitionedBuffer.requiredSize(ordered, maxEntitiesPerPartition);
+    const buffer = new PartitionedBuffer(size, maxEntitiesPerPartition);
+    const storages = new Map(ordered.map((spec) => [spec.name, buffer.addPartition(spec)]));
+    const partitions = Object.fromEntries(entries.map(([key, spec]) => [key, storages.get(spec.name)]));
+    return { buffer, partitions: partitions as PartitionStorages<S> };
   }
 
   /**
-   * Calculates the total aligned size needed for a schema with validation
+   * Report how many bytes packing would save for a set of partitions, without creating a buffer
+   * @param specs - The partition specifications or instances, in the order they would be added
+   * @param maxEntitiesPerPartition - The buffer's `maxEntitiesPerPartition`
+   * @returns The bytes needed in declaration order and packed, in total and per partition
+   * @throws {InvalidBufferOptionsError} If `maxEntitiesPerPartition` is invalid
+   * @throws {InvalidPartitionSpecError} If a partition specification is invalid
+   * @throws {DuplicatePartitionError} If two partitions have the same name
+   * @throws {InvalidSchemaError} If a schema contains invalid properties
+   *
+   * @example ```
+   * const { savedBytes } = PartitionedBuffer.packingReport([unit, position], 1024);
+   * if (savedBytes > 0) PartitionedBuffer.fromSpecs({ unit, position }, 1024, { layout: "packed" });
+   * ```
    */
-  #calculateAlignedSize<T extends SchemaSpec<T>>(schema: Schema<T>, maxOwners: number | null = null): number {
-    if (!schema) return 0;
-
-    let alignedSize = 0;
-    let lastAlignment: number = PartitionedBuffer.MIN_ALIGNMENT;
-    const elements = maxOwners ?? this.maxEntitiesPerPartition;
-
-    for (const [name, value] of Object.entries(schema)) {
-      this.#validateSchemaEntry(name, value as SchemaProperty);
-      const Ctr = Array.isArray(value) ? value[0] : value;
-      const alignment = Math.max(Ctr.BYTES_PER_ELEMENT, PartitionedBuffer.MIN_ALIGNMENT);
-      const partitionSize = elements * Ctr.BYTES_PER_ELEMENT;
-
-      // Validate partition size
-      if (partitionSize > PartitionedBuffer.MAX_PARTITION_SIZE) {
-        throw new RangeError(
-          `Partition property "${name}" size (${partitionSize} bytes) exceeds maximum allowed (${PartitionedBuffer.MAX_PARTITION_SIZE} bytes)`,
-        );
-      }
-
-      // Track largest alignment for final size alignment
-      lastAlignment = Math.max(lastAlignment, alignment);
-
-      // Calculate aligned offset
-      const alignedOffset = (alignedSize + alignment - 1) & ~(alignment - 1);
-
-      // Check for overflow
-      if (alignedOffset < alignedSize || alignedOffset > Number.MAX_SAFE_INTEGER - partitionSize) {
-        throw new RangeError(`Schema size calculation overflow at property "${name}"`);
-      }
-
-      alignedSize = alignedOffset + partitionSize;
-    }
-
-    // Ensure final size is aligned
-    const finalSize = (alignedSize + lastAlignment - 1) & ~(lastAlignment - 1);
-    if (finalSize < alignedSize) {
-      throw new RangeError("Final size alignment overflow");
-    }
-
-    return finalSize;
+  static packingReport(
+    // deno-lint-ignore no-explicit-any
+    specs: readonly (PartitionSpec<any> | Partition<any>)[],
+    maxEntitiesPerPartition: number,
+  ): PackingReport {
+    validateBufferArgs(maxEntitiesPerPartition, maxEntitiesPerPartition, {});
+    return new PartitionRegistry(new ArrayBuffer(0), maxEntitiesPerPartition).packingReport(specs);
   }
 
   /**
-   * Add a partition to the buffer
-   * @param specOrPartition - The partition specification or instance to add
-   * @returns The partition storage, or null if no schema was provided
-   * @throws {Error} If the partition name exists or there isn't enough space
-   * @throws {TypeError} If the schema contains invalid properties
+   * Rebuild a buffer saved with older partition schemas.
+   *
+   * Creates a new buffer with the same `maxEntitiesPerPartition`, adds every spec in order and copies each
+   * entity from the source partition with the same name. Registered migration steps run between the
+   * source partition's `version` and the spec's; properties with matching names are then copied with
+   * numeric conversion, new properties keep their defaults and removed properties are dropped.
+   * Partitions missing from `specs` are dropped.
+   *
+   * __Note__: a partition that becomes sparse needs a `maxOwners` large enough for every source entity.
+   *
+   * @param source - A buffer, or bytes produced by `serialize()`
+   * @param specs - The current partition specifications or instances, in the order to add them
+   * @param options - Migration steps, and the new buffer's size
+   * @returns A new buffer holding the migrated data
+   * @throws {InvalidSnapshotError} If the bytes are not a valid snapshot
+   * @throws {MigrationDowngradeError} If a source partition has a newer version than its spec
+   * @throws {PartitionOverflowError} If the new buffer doesn't have enough space for the partitions
    */
+  static migrate(
+    source: PartitionedBuffer | Uint8Array | ArrayBuffer,
+    // deno-lint-ignore no-explicit-any
+    specs: (PartitionSpec<any> | Partition<any>)[],
+    options: MigrateOptions = {},
+  ): PartitionedBuffer {
+    const previous = source instanceof PartitionedBuffer ? source : PartitionedBuffer.deserialize(source);
+    const { maxEntitiesPerPartition } = previous;
+    const size = options.size ?? Math.ceil(previous.byteLength / maxEntitiesPerPartition) * maxEntitiesPerPartition;
+    const maxByteLength = options.maxByteLength ??
+      (previous.resizable ? Math.max(size, previous.maxByteLength) : undefined);
+    const buffer = new PartitionedBuffer(size, maxEntitiesPerPartition, { maxByteLength });
+    for (const spec of specs) buffer.addPartition(spec);
+    migratePartitions(previous.#registry, buffer.#registry, options.migrations);
+    return buffer;
+  }
+
+  /** Iterate over the registered partitions and their storage in layout order */
+  [Symbol.iterator](): IterableIterator<PartitionEntry> {
+    return this.#registry.entries();
+  }
+
+  /** Add a partition to the buffer */
   addPartition<T extends SchemaSpec<T> | null = null>(
     specOrPartition: PartitionSpec<T> | Partition<T>,
   ): PartitionStorage<T> {
-    // Convert spec to internal Partition instance
-    const partition = specOrPartition instanceof Partition ? specOrPartition : new Partition(specOrPartition);
-    const { name, schema = null, maxOwners = null, maxEntityId = null } = partition;
-
-    // Fast path for existing partitions
-    if (this.#partitions.has(partition)) {
-      return this.#partitions.get(partition) as PartitionStorage<T>;
-    }
+    return this.#registry.add(specOrPartition);
+  }
 
-    // Validate parameters
-    this.#validatePartitionParams(partition, name, maxOwners);
+  /** Check whether `addPartition()` would succeed, without adding the partition */
+  canAddPartition<T extends SchemaSpec<T> | null = null>(specOrPartition: PartitionSpec<T> | Partition<T>): boolean {
+    return this.#registry.canAdd(specOrPartition);
+  }
 
-    if (!schema) {
-      const tagMeta = { byteLength: 0, byteOffset: this.#offset };
-      this.#partitions.set(partition, null);
-      this.#partitionsByNames.set(name, null);
-      this.#tagMetaByName.set(name, tagMeta);
-      this.#tagMetaByPartition.set(partition, tagMeta);
-      return null as PartitionStorage<T>;
-    }
+  /** Clear the buffer and release references */
+  clear(): this {
+    this.#registry.clear();
+    return this;
+  }
 
-    // Calculate required space (use maxOwners if specified)
-    const alignedSize = this.#calculateAlignedSize(schema, maxOwners);
-    if (alignedSize > this.getFreeSpace()) {
-      const required = alignedSize - this.getFreeSpace();
-      const hint = `(Size: ${alignedSize}; Available: ${this.getFreeSpace()}; Required: ${required})`;
-      throw new Error(`Not enough free space to add partition ${name} ${hint}`);
-    }
+  /** Copy an entity's values and tags to another entity, across every partition or a selection of them */
+  copyEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.copyEntity(from, to, keys);
+  }
 
-    // Capture start offset before creating partitions
-    const startOffset = this.#offset;
-
-    // Create partitions
-    // Note: maxEntityId enables zero-allocation sparse storage when specified with maxOwners
-    const schemaEntries = Object.entries(schema) as [keyof T, SchemaProperty][];
-    const sharedIndex = maxOwners ? new SparseIndex(maxOwners, { maxEntityId: maxEntityId ?? undefined }) : undefined;
-    const partitions = Object.fromEntries(
-      schemaEntries.map((entry) => this.#createPartition(entry, maxOwners, maxEntityId, sharedIndex)),
-    ) as Record<keyof T, TypedArray>;
-
-    // Create and store the partition storage
-    const result = {
-      byteLength: alignedSize,
-      byteOffset: startOffset,
-      partitions,
-      get: (partition: keyof T, index: number): number | undefined => {
-        return partitions[partition]?.[index] ?? undefined;
-      },
-      set: (partition: keyof T, index: number, value: number): void => {
-        const partitionStorage = partitions[partition];
-        if (!partitionStorage) {
-          throw new Error(`Partition ${String(partition)} not found`);
-        }
-        // Only validate bounds for dense (non-sparse) storage
-        // Sparse storage handles bounds internally via SparseFacade
-        if (!maxOwners && (index < 0 || index >= partitionStorage.length)) {
-          throw new RangeError(`Index ${index} out of bounds for partition ${String(partition)}`);
-        }
-        partitionStorage[index] = value;
-      },
-    } as unknown as PartitionStorage<T>;
-
-    this.#partitions.set(partition, result);
-    this.#partitionsByNames.set(name, result);
-
-    return result;
+  /** Report the buffer's layout for debugging */
+  describe(): BufferDescription {
+    return this.#registry.describe();
   }
 
-  /**
-   * Clear the buffer and release references.
-   *
-   * Existing partition storage handles still reference their typed-array views
-   * over this ArrayBuffer, but they are no longer registered with the buffer.
-   * Add partitions again and retrieve fresh handles after calling clear().
-   */
-  clear(): this {
-    this.#partitions.forEach(clearAllPartitionArrays);
-    this.#partitions.clear();
-    this.#partitionsByNames.clear();
-    this.#tagMetaByName.clear();
-    this.#tagMetaByPartition.clear();
-    this.#offset = 0;
-    return this;
+  /** Report memory usage for monitoring */
+  stats(): BufferStats {
+    return this.#registry.stats();
   }
 
-  /** The amount of free space in bytes in the underlying ArrayBuffer */
+  /** The amount of free space in bytes in the buffer's memory */
   getFreeSpace(): number {
-    return this.byteLength - this.#offset;
+    return this.#registry.getFreeSpace();
   }
 
-  /**
-   * Get a partition by name or spec
-   * @param key - The partition name or spec to retrieve
-   * @returns The partition storage if found, undefined otherwise
-   * @throws {TypeError} If key is null or undefined
-   */
+  /** The amount of free space in bytes the buffer could provide after growing to its `maxByteLength` */
+  getMaxFreeSpace(): number {
+    return this.#registry.getMaxFreeSpace();
+  }
+
+  /** Describe where every partition lives */
+  getLayout(): PartitionedBufferLayout {
+    return this.#registry.getLayout();
+  }
+
+  /** Get a partition by name or spec */
   getPartition<T extends SchemaSpec<T> | null = null>(
     key: PartitionSpec<T> | Partition<T> | string,
   ): PartitionStorage<T> | undefined {
-    if (!key) {
-      throw new TypeError("key must be a string or PartitionSpec");
-    }
-    if (typeof key === "string") {
-      return this.#partitionsByNames.get(key) as PartitionStorage<T> | undefined;
-    }
-    if (key instanceof Partition) {
-      return this.#partitions.get(key) as PartitionStorage<T> | undefined;
-    }
-    return this.#partitionsByNames.get(key.name) as PartitionStorage<T> | undefined;
+    return this.#registry.get(key);
   }
 
-  /** Get the current offset into the underlying ArrayBuffer */
+  /** Get the current offset into the buffer's memory */
   getOffset(): number {
-    return this.#offset;
+    return this.#registry.getOffset();
   }
 
-  /**
-   * Check if a partition exists
-   * @param key - The partition name or spec to check
-   * @returns True if the partition exists, false otherwise
-   */
+  /** Check if a partition exists */
   hasPartition<T extends SchemaSpec<T> | null = null>(
     key: PartitionSpec<T> | Partition<T> | string,
   ): boolean {
-    if (!key) {
-      throw new TypeError("key must be a string or PartitionSpec");
-    }
-    if (typeof key === "string") {
-      return this.#partitionsByNames.has(key);
-    }
-    if (key instanceof Partition) {
-      return this.#partitions.has(key);
-    }
-    return this.#partitionsByNames.has(key.name);
+    return this.#registry.has(key);
+  }
+
+  /** Compute a stable fingerprint of the buffer's layout */
+  layoutHash(): string {
+    return this.#registry.layoutHash();
+  }
+
+  /** Move an entity's values and tags to another entity, across every partition or a selection of them */
+  moveEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.moveEntity(from, to, keys);
   }
 
+  /** Work out where `addPartition()` would place a partition, without adding it or changing the buffer */
+  planPartition<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionPlan {
+    return this.#registry.plan(specOrPartition);
+  }
+
+  /** Iterate over the registered partition names in layout order, including tags */
+  *partitionNames(): IterableIterator<string> {
+    for (const [partition] of this.#registry.entries()) yield partition.name;
+  }
+
+  /** Iterate over the registered partitions in layout order, including tags */
+  // deno-lint-ignore no-explicit-any
+  *partitions(): IterableIterator<Partition<any>> {
+    for (const [partition] of this.#registry.entries()) yield partition;
+  }
+
+  /** Return every partition to its state when it was added, keeping the layout and storage handles */
+  reset(): this {
+    this.#registry.reset();
+    return this;
+  }
+
+  /** Restore an entity's values to their declared defaults, across every partition or a selection of them */
+  resetEntity(entity: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.resetEntity(entity, keys);
+  }
+
+  /** Exchange two entities' values and tags, across every partition or a selection of them */
+  swapEntities(a: number, b: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.swapEntities(a, b, keys);
+  }
+
+  /** Query the entities that belong to several partitions */
+  query(spec: QuerySpec): Query {
+    return new Query(this.#registry, spec);
+  }
+
+  /** Remove a partition from the buffer */
+  removePartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean {
+    return this.#registry.remove(key);
+  }
   /**
-   * Validates schema entry values
-   * @throws {TypeError} If the schema entry is invalid
+   * The intern table behind the buffer's `string` schema properties.
+   * Partition arrays hold handles into this table; use `get()` and `set()` to read and write strings.
    */
-  #validateSchemaEntry(name: string, value: SchemaProperty): void {
-    const Ctr = Array.isArray(value) ? value[0] : value;
-    const initialValue = Array.isArray(value) ? value[1] : 0;
-
-    if (!isTypedArrayConstructor(Ctr)) {
-      throw new TypeError(`Invalid type for schema property "${String(name)}"`);
-    }
+  get strings(): StringTable {
+    return this.#registry.strings;
+  }
 
-    if (Array.isArray(value) && !isValidTypedArrayValue(Ctr, initialValue)) {
-      throw new TypeError(
-        `Invalid initial value ${initialValue} for schema property "${String(name)}" of type ${Ctr.name}`,
-      );
-    }
+  /**
+   * Serialize the buffer into a self-describing binary snapshot.
+   *
+   * The snapshot holds the partition table (names, schema property types, default values,
+   * `maxOwners`, `maxEntityId` and offsets), the raw bytes, every sparse entity mapping and the string table.
+   *
+   * @returns The serialized buffer, which can be restored with `PartitionedBuffer.deserialize()`
+   */
+  serialize(): Uint8Array<ArrayBuffer> {
+    return encodeSnapshot(this.#registry.snapshot());
   }
 }
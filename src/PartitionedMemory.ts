@@ -0,0 +1,282 @@
+/**
+ * @module      PartitionedMemory
+ * @description The partition API shared by PartitionedBuffer and SharedPartitionedBuffer.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import type {
+  BufferDescription,
+  BufferStats,
+  EntityPartitionKey,
+  PartitionedBufferLayout,
+  PartitionEntry,
+  PartitionPlan,
+} from "./Layout.ts";
+import type { Partition, PartitionSpec, PartitionStorage } from "./Partition.ts";
+import type { Query, QuerySpec } from "./Query.ts";
+import type { SchemaSpec } from "./Schema.ts";
+
+/**
+ * The partition API of a buffer: adding, finding and removing partitions, entity operations, queries and reports.
+ *
+ * Implemented by `PartitionedBuffer` and `SharedPartitionedBuffer`, which each delegate to their own registry,
+ * so code that only manages partitions can accept either.
+ */
+export interface PartitionedMemory {
+  /** The maximum possible number of owners per partition */
+  readonly maxEntitiesPerPartition: number;
+
+  /** The size of the buffer's memory in bytes */
+  readonly byteLength: number;
+
+  /**
+   * Iterate over the registered partitions and their storage in layout order.
+   * Tags are included with their bitset storage.
+   */
+  [Symbol.iterator](): IterableIterator<PartitionEntry>;
+
+  /**
+   * Add a partition to the buffer
+   * @param specOrPartition - The partition specification or instance to add
+   * @returns The partition storage, or a tag bitset if no schema was provided
+   * @throws {DuplicatePartitionError} If the partition name exists
+   * @throws {PartitionOverflowError} If there isn't enough space
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   * @throws {UnsupportedSchemaError} If the schema has string properties and the memory is shared
+   */
+  addPartition<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionStorage<T>;
+
+  /**
+   * Check whether `addPartition()` would succeed, without adding the partition
+   * @param specOrPartition - The partition specification or instance
+   * @returns `true` if the partition is already added, or its name is free and it fits
+   * @throws {InvalidPartitionSpecError} If the partition specification is invalid
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   */
+  canAddPartition<T extends SchemaSpec<T> | null = null>(specOrPartition: PartitionSpec<T> | Partition<T>): boolean;
+
+  /**
+   * Clear the buffer and release references.
+   *
+   * The partition arrays are zeroed, which is visible to every thread sharing the memory.
+   * Existing partition storage handles still reference their typed-array views
+   * over the memory, but they are no longer registered with the buffer.
+   * The string table is emptied too.
+   * Add partitions again and retrieve fresh handles after calling clear().
+   */
+  clear(): this;
+
+  /**
+   * Copy an entity's values and tags to another entity, across every partition or a selection of them.
+   *
+   * Dense partitions copy the entity's slot, sparse partitions add the target to their mapping
+   * (or remove it, if the source is not mapped) and tags copy the source's membership.
+   *
+   * @param from - The entity to copy
+   * @param to - The entity to overwrite
+   * @param keys - The partition names, specs or instances to copy [default = every partition]
+   * @throws {TypeError} If an entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} If an entity is out of bounds for a selected partition
+   * @throws {SparseCapacityError} If a sparse partition is full
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   *
+   * @example ```
+   * buffer.copyEntity(prefab, spawned); // spawn a copy of a prefab entity
+   * ```
+   */
+  copyEntity(from: number, to: number, keys?: EntityPartitionKey[]): void;
+
+  /**
+   * Report the buffer's layout for debugging.
+   *
+   * Lists every partition in insertion order with each schema property's type, element count,
+   * byte offset, byte length and the alignment padding inserted before it,
+   * plus totals for used, padding and free bytes.
+   */
+  describe(): BufferDescription;
+
+  /**
+   * Report memory usage for monitoring.
+   *
+   * Gives the used, padding and free bytes of the buffer and of each partition, the number of tags,
+   * and each sparse partition's capacity, occupied slots, high-water mark and `SparseIndex` memory.
+   *
+   * @example ```
+   * const { freeBytes, partitions } = buffer.stats();
+   * for (const { name, sparse } of partitions) {
+   *   if (sparse && sparse.highWater > sparse.capacity * 0.9) console.warn(`${name} is nearly full`);
+   * }
+   * ```
+   */
+  stats(): BufferStats;
+
+  /** The amount of free space in bytes in the buffer's memory */
+  getFreeSpace(): number;
+
+  /**
+   * The amount of free space in bytes the buffer could provide after growing to its `maxByteLength`.
+   * For non-growable buffers this is the same as `getFreeSpace()`.
+   */
+  getMaxFreeSpace(): number;
+
+  /**
+   * Describe where every partition lives.
+   *
+   * The layout is structured-cloneable, so it can be posted to a worker alongside shared memory
+   * and passed to `SharedPartitionedBuffer.fromLayout()` there.
+   */
+  getLayout(): PartitionedBufferLayout;
+
+  /**
+   * Get a partition by name or spec
+   * @param key - The partition name or spec to retrieve
+   * @returns The partition storage if found, undefined otherwise
+   * @throws {TypeError} If key is null or undefined
+   */
+  getPartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): PartitionStorage<T> | undefined;
+
+  /** Get the current offset into the buffer's memory */
+  getOffset(): number;
+
+  /**
+   * Check if a partition exists
+   * @param key - The partition name or spec to check
+   * @returns True if the partition exists, false otherwise
+   */
+  hasPartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean;
+
+  /**
+   * Compute a stable fingerprint of the buffer's layout.
+   *
+   * The hash covers `maxEntitiesPerPartition` and every partition's name, version, `maxOwners`, `maxEntityId`
+   * and schema (property order, types and defaults) in layout (byte offset) order, not the order partitions
+   * were added. It does not depend on object identity,
+   * byte offsets, the buffer's size or its contents, so it can detect incompatible snapshots and layouts.
+   * A worker's buffer rebuilt with `fromLayout()` has the same hash as the original.
+   *
+   * @returns the hash as 16 lowercase hex digits
+   */
+  layoutHash(): string;
+
+  /**
+   * Move an entity's values and tags to another entity, across every partition or a selection of them.
+   *
+   * The target is overwritten as by `copyEntity()`, then the source is vacated:
+   * its dense slots are reset to their defaults, it is removed from sparse mappings and its tags are removed.
+   *
+   * @param from - The entity to move
+   * @param to - The entity to overwrite
+   * @param keys - The partition names, specs or instances to move [default = every partition]
+   * @throws {TypeError} If an entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} If an entity is out of bounds for a selected partition
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   */
+  moveEntity(from: number, to: number, keys?: EntityPartitionKey[]): void;
+
+  /**
+   * Work out where `addPartition()` would place a partition, without adding it or changing the buffer
+   * @param specOrPartition - The partition specification or instance
+   * @returns Whether it fits, where it would start, its padding and aligned size, and any shortfall in bytes
+   * @throws {InvalidPartitionSpecError} If the partition specification is invalid
+   * @throws {DuplicatePartitionError} If the partition name exists
+   * @throws {InvalidSchemaError} If the schema contains invalid properties
+   *
+   * @example ```
+   * const plan = buffer.planPartition(velocitySpec);
+   * if (!plan.fits) console.warn(`velocity needs ${plan.shortfall} more bytes`);
+   * ```
+   */
+  planPartition<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionPlan;
+
+  /** Iterate over the registered partition names in layout order, including tags */
+  partitionNames(): IterableIterator<string>;
+
+  /** Iterate over the registered partitions in layout order, including tags */
+  // deno-lint-ignore no-explicit-any
+  partitions(): IterableIterator<Partition<any>>;
+
+  /**
+   * Return every partition to its state when it was added, keeping the layout and storage handles.
+   *
+   * Dense properties are filled with their declared defaults, sparse partitions release every entity
+   * and tags are emptied. The string table is emptied too.
+   */
+  reset(): this;
+
+  /**
+   * Restore an entity's values to their declared defaults, across every partition or a selection of them.
+   *
+   * Tag membership and sparse ownership are unchanged: an owned sparse entity keeps its slot with default values.
+   *
+   * @param entity - The entity to reset
+   * @param keys - The partition names, specs or instances to reset [default = every partition]
+   * @throws {TypeError} If the entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} If the entity is out of bounds for a selected partition
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   *
+   * @example ```
+   * buffer.resetEntity(despawned); // ready to be reused
+   * ```
+   */
+  resetEntity(entity: number, keys?: EntityPartitionKey[]): void;
+
+  /**
+   * Exchange two entities' values and tags, across every partition or a selection of them.
+   *
+   * Sparse partitions swap the entities' dense slots in their mapping without moving any values.
+   *
+   * @param a - The first entity
+   * @param b - The second entity
+   * @param keys - The partition names, specs or instances to swap [default = every partition]
+   * @throws {TypeError} If an entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} If an entity is out of bounds for a selected partition
+   * @throws {PartitionNotFoundError} If a selected partition does not exist
+   */
+  swapEntities(a: number, b: number, keys?: EntityPartitionKey[]): void;
+
+  /**
+   * Query the entities that belong to several partitions.
+   *
+   * Sparse partitions hold the entities in their sparse mapping, tags hold their tagged entities
+   * and dense partitions hold every entity ID below `maxEntitiesPerPartition`.
+   * Results are cached until membership of a queried partition changes.
+   *
+   * @param spec - Partition names, specs or instances in `all`, `any` and `none` clauses
+   * @returns A query whose iterator yields matching entity IDs in ascending order
+   * @throws {TypeError} If the specification is invalid
+   * @throws {PartitionNotFoundError} If a queried partition does not exist
+   *
+   * @example ```
+   * const movable = buffer.query({ all: ["position", "velocity"], none: ["frozen"] });
+   * for (const entity of movable) {
+   *   // ...
+   * }
+   * ```
+   */
+  query(spec: QuerySpec): Query;
+
+  /**
+   * Remove a partition from the buffer.
+   *
+   * The partition's arrays are zeroed and its bytes are returned to a free list,
+   * so a later `addPartition()` whose aligned size fits can reuse the space.
+   * Existing storage handles for the removed partition must not be used afterwards,
+   * and other threads must reconstruct theirs from a fresh layout.
+   *
+   * @param key - The partition name, spec or instance to remove
+   * @returns `true` if the partition was removed, `false` if it did not exist
+   * @throws {TypeError} If key is null or undefined
+   */
+  removePartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean;
+}
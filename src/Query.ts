@@ -0,0 +1,266 @@
+/**
+ * @module      Query
+ * @description Cached multi-partition entity queries with all / any / none clauses.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { PartitionNotFoundError } from "./Errors.ts";
+import type { Partition, PartitionSpec } from "./Partition.ts";
+import type { PartitionRegistry } from "./PartitionRegistry.ts";
+import type { SparseIndex } from "./SparseFacade.ts";
+import { TagStorage } from "./TagStorage.ts";
+import { isObject } from "./utils.ts";
+
+/** A partition name, spec or instance used in a query clause */
+// deno-lint-ignore no-explicit-any
+export type QueryKey = string | PartitionSpec<any> | Partition<any>;
+
+/**
+ * Query specification
+ *
+ * @example ```
+ * // Entities with position and velocity that are not frozen
+ * const spec: QuerySpec = { all: ["position", "velocity"], none: ["frozen"] };
+ * ```
+ */
+export type QuerySpec = {
+  /** Entities must belong to every one of these partitions */
+  all?: QueryKey[];
+  /** Entities must belong to at least one of these partitions */
+  any?: QueryKey[];
+  /** Entities must not belong to any of these partitions */
+  none?: QueryKey[];
+};
+
+/** How entity membership of a single partition is tested */
+type Membership = {
+  /** `true` if the partition only holds some entities (sparse partitions and tags) */
+  readonly isSparse: boolean;
+  /** Check if an entity belongs to the partition */
+  has(entity: number): boolean;
+  /** Call a function for every entity in the partition (sparse partitions and tags only) */
+  forEach(callback: (entity: number) => void): void;
+  /** The number of entities in the partition (sparse partitions and tags only) */
+  size(): number;
+  /** Changes whenever the partition's membership changes */
+  version(): number;
+};
+
+/** Membership of a sparse partition, read from its shared index */
+function sparseMembership(index: SparseIndex): Membership {
+  return {
+    isSparse: true,
+    has: (entity) => index.get(entity) !== undefined,
+    forEach: (callback) => index.forEach((entity) => callback(entity)),
+    size: () => index.size,
+    version: () => index.version,
+  };
+}
+
+/** Membership of a tag, read from its bitset */
+function tagMembership(tag: TagStorage): Membership {
+  return {
+    isSparse: true,
+    has: (entity) => tag.has(entity),
+    forEach: (callback) => {
+      for (const entity of tag) callback(entity);
+    },
+    size: () => tag.count(),
+    version: () => tag.version,
+  };
+}
+
+/** Membership of a dense partition, which holds every entity below `maxEntitiesPerPartition` */
+function denseMembership(maxEntitiesPerPartition: number): Membership {
+  return {
+    isSparse: false,
+    has: (entity) => Number.isSafeInteger(entity) && entity >= 0 && entity < maxEntitiesPerPartition,
+    forEach: () => {},
+    size: () => maxEntitiesPerPartition,
+    version: () => 0,
+  };
+}
+
+/**
+ * A cached query over the partitions of a buffer.
+ *
+ * Sparse partitions hold the entities in their sparse mapping and tags hold their tagged entities.
+ * Dense partitions hold every entity ID below `maxEntitiesPerPartition`.
+ *
+ * Results are computed on first use and cached until the membership of a queried partition changes
+ * or partitions are added to or removed from the buffer.
+ *
+ * __Note__: changes made by writing tag `bits` directly, or from another thread, are not detected.
+ *
+ * @example ```
+ * const movable = buffer.query({ all: ["position", "velocity"], none: ["frozen"] });
+ * for (const entity of movable) {
+ *   // ...
+ * }
+ * ```
+ */
+export class Query {
+  /** The registry whose partitions are queried */
+  readonly #registry: PartitionRegistry;
+
+  /** The query clauses */
+  readonly #spec: Required<QuerySpec>;
+
+  /** The resolved `all` clause */
+  #all: Membership[] = [];
+
+  /** The resolved `any` clause */
+  #any: Membership[] = [];
+
+  /** The resolved `none` clause */
+  #none: Membership[] = [];
+
+  /** The registry version the clauses were resolved against */
+  #registryVersion = -1;
+
+  /** The membership versions the cached result was computed from */
+  #versions: number[] = [];
+
+  /** The cached matching entities, in ascending order */
+  #result: number[] | null = null;
+
+  /**
+   * Create a new query
+   * @param registry the registry whose partitions are queried
+   * @param spec the query clauses
+   * @throws {TypeError} if the specification is invalid
+   * @throws {PartitionNotFoundError} if a queried partition does not exist
+   */
+  constructor(registry: PartitionRegistry, spec: QuerySpec) {
+    if (!isObject(spec)) {
+      throw new TypeError("Query must be an object with all, any or none clauses");
+    }
+    const { all = [], any = [], none = [] } = spec;
+    for (const [clause, keys] of [["all", all], ["any", any], ["none", none]] as const) {
+      if (!Array.isArray(keys)) {
+        throw new TypeError(`Query clause "${clause}" must be an array`);
+      }
+    }
+    if (all.length + any.length + none.length === 0) {
+      throw new TypeError("Query must reference at least one partition");
+    }
+    this.#registry = registry;
+    this.#spec = { all: [...all], any: [...any], none: [...none] };
+    this.#resolve();
+  }
+
+  /**
+   * Resolve the clauses to memberships, if partitions were added or removed since the last call
+   * @throws {PartitionNotFoundError} if a queried partition does not exist
+   */
+  #resolve(): void {
+    const registry = this.#registry;
+    if (this.#registryVersion === registry.version) return;
+    const resolveKey = (key: QueryKey): Membership => {
+      if (!key) {
+        throw new TypeError("key must be a string or PartitionSpec");
+      }
+      const storage = registry.get(key);
+      if (storage === undefined) {
+        throw new PartitionNotFoundError(typeof key === "string" ? key : key.name);
+      }
+      if (storage instanceof TagStorage) return tagMembership(storage);
+      const index = registry.getSparseIndex(key);
+      return index ? sparseMembership(index) : denseMembership(registry.maxEntitiesPerPartition);
+    };
+    this.#all = this.#spec.all.map(resolveKey);
+    this.#any = this.#spec.any.map(resolveKey);
+    this.#none = this.#spec.none.map(resolveKey);
+    this.#registryVersion = registry.version;
+    this.#result = null;
+  }
+
+  /** @returns `true` if the entity matches every clause */
+  #matches(entity: number): boolean {
+    for (const membership of this.#all) {
+      if (!membership.has(entity)) return false;
+    }
+    for (const membership of this.#none) {
+      if (membership.has(entity)) return false;
+    }
+    if (this.#any.length === 0) return true;
+    for (const membership of this.#any) {
+      if (membership.has(entity)) return true;
+    }
+    return false;
+  }
+
+  /** Compute the matching entities, starting from the smallest candidate set */
+  #compute(): number[] {
+    const result: number[] = [];
+    const visit = (entity: number) => {
+      if (this.#matches(entity)) result.push(entity);
+    };
+
+    let smallest: Membership | undefined;
+    for (const membership of this.#all) {
+      if (membership.isSparse && (!smallest || membership.size() < smallest.size())) smallest = membership;
+    }
+
+    if (smallest) {
+      smallest.forEach(visit);
+    } else if (this.#any.length > 0 && this.#any.every((membership) => membership.isSparse)) {
+      const candidates = new Set<number>();
+      for (const membership of this.#any) membership.forEach((entity) => candidates.add(entity));
+      candidates.forEach(visit);
+    } else {
+      for (let entity = 0; entity < this.#registry.maxEntitiesPerPartition; entity++) visit(entity);
+    }
+
+    return result.sort((a, b) => a - b);
+  }
+
+  /** @returns `true` if the cached result is still valid */
+  #isFresh(): boolean {
+    if (!this.#result) return false;
+    const memberships = [...this.#all, ...this.#any, ...this.#none];
+    for (let i = 0; i < memberships.length; i++) {
+      if (memberships[i]!.version() !== this.#versions[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get the matching entities, recomputing them if membership changed
+   * @returns the matching entity IDs in ascending order
+   * @throws {PartitionNotFoundError} if a queried partition was removed
+   */
+  entities(): readonly number[] {
+    this.#resolve();
+    if (!this.#isFresh()) {
+      this.#versions = [...this.#all, ...this.#any, ...this.#none].map((membership) => membership.version());
+      this.#result = this.#compute();
+    }
+    return this.#result!;
+  }
+
+  /**
+   * @returns the number of matching entities
+   * @throws {PartitionNotFoundError} if a queried partition was removed
+   */
+  count(): number {
+    return this.entities().length;
+  }
+
+  /**
+   * Check if a single entity matches the query, without computing the full result
+   * @param entity the entity ID
+   * @returns `true` if the entity matches every clause
+   * @throws {PartitionNotFoundError} if a queried partition was removed
+   */
+  has(entity: number): boolean {
+    this.#resolve();
+    return this.#matches(entity);
+  }
+
+  /** Iterate over the matching entities in ascending order */
+  [Symbol.iterator](): IterableIterator<number> {
+    return this.entities()[Symbol.iterator]();
+  }
+}
@@ -5,41 +5,169 @@
  * @license     MIT
  */
 
+import { InvalidSchemaError, UnsupportedSchemaError, ValueRangeError } from "./Errors.ts";
 import {
+  type BigIntTypedArray,
+  type BigIntTypedArrayConstructor,
+  hashString,
+  isBigIntTypedArrayConstructor,
   isObject,
+  isPositiveUint32,
   isTypedArrayConstructor,
   isValidName,
   isValidTypedArrayValue,
-  type TypedArray,
+  type NumberTypedArray,
   type TypedArrayConstructor,
 } from "./utils.ts";
 
 /** Minimum alignment in bytes for TypedArrays */
 const MIN_ALIGNMENT = 8;
 
+/** Number of bits in each packed bitfield word */
+const BITS_PER_WORD = 32;
+
+/**
+ * The typed array storing a schema property's values: bigint arrays for `bigint` (or bigint vector) properties
+ */
+export type SchemaPropertyArray<V> = V extends bigint | BigIntTypedArray ? BigIntTypedArray : NumberTypedArray;
+
 /**
  * Storage convenience object
+ *
+ * `getEntity()` reads every property of an entity into a plain object, or fills `target` to avoid allocating one,
+ * and returns `undefined` for entities outside the partition (or without a sparse slot).
+ * Both accessors throw for entities that are not non-negative safe integers, like the buffer's entity methods.
+ * Vector properties are read as subarrays, or copied into `target`'s existing TypedArrays.
+ *
+ * `setEntity()` writes every property of an entity at once. The values are validated against the schema first,
+ * so nothing is written if any property is missing, unknown or invalid.
  */
 export type SchemaStorage<T> = {
   byteOffset: number;
   byteLength: number;
-  partitions: Record<keyof T, TypedArray>;
-  get: T extends SchemaSpec<infer U> ? (partition: keyof U, index: number) => U[keyof U] : never;
-  set: T extends SchemaSpec<infer U> ? (partition: keyof U, index: number, value: U[keyof U]) => void : never;
+  partitions: { [K in keyof T]: SchemaPropertyArray<T[K]> };
+  get: T extends SchemaSpec<infer U> ? <K extends keyof U>(partition: K, index: number) => U[K] : never;
+  set: T extends SchemaSpec<infer U> ? <K extends keyof U>(partition: K, index: number, value: U[K]) => void : never;
+  getEntity: T extends SchemaSpec<infer U> ? (index: number, target?: U) => U | undefined : never;
+  setEntity: T extends SchemaSpec<infer U> ? (index: number, values: U) => void : never;
+};
+
+/**
+ * A fixed-length vector schema property, storing `length` contiguous elements per entity
+ *
+ * @example { matrix: { type: Float32Array, length: 16 } }
+ */
+export type VectorSchemaProperty = {
+  /** The TypedArray constructor of each element */
+  type: TypedArrayConstructor;
+  /** The number of elements per entity */
+  length: number;
+};
+
+/**
+ * A bit-packed `bool` or `uint(n)` schema property.
+ *
+ * A partition's bitfields share a Uint32Array holding a few packed words per entity.
+ * `bool` fields read and write booleans, `uint` fields read and write integers in `[0, 2 ** bits)`.
+ *
+ * @example { visible: bool, layer: uint(3) }
+ */
+export type BitfieldSchemaProperty = {
+  /** Whether the field holds a boolean or an unsigned integer */
+  readonly kind: "bool" | "uint";
+  /** The width of the field in bits [1, 32] */
+  readonly bits: number;
+  /** The value the field is initialised to */
+  readonly initialValue: number;
 };
 
+/** Where a bitfield property lives within an entity's packed words */
+export type BitfieldPlacement = {
+  /** The field's property definition */
+  readonly property: BitfieldSchemaProperty;
+  /** The index of the word holding the field, within the entity's words */
+  readonly word: number;
+  /** The bit position of the field within its word */
+  readonly shift: number;
+};
+
+/**
+ * An interned string schema property.
+ *
+ * Each entity stores a Uint32 handle into the buffer's reference-counted string table.
+ * Handle `0` is the empty string, which new entities are initialised to.
+ *
+ * @example { name: string, asset: string }
+ */
+export type StringSchemaProperty = {
+  /** Always `"string"` */
+  readonly kind: "string";
+};
+
+/** An interned string schema property, initialised to `""` */
+export const string: StringSchemaProperty = Object.freeze({ kind: "string" });
+
+/** A single-bit boolean schema property, initialised to `false` */
+export const bool: BitfieldSchemaProperty = Object.freeze({ kind: "bool", bits: 1, initialValue: 0 });
+
+/**
+ * Create an unsigned integer bitfield schema property
+ * @param bits the width of the field in bits [1, 32]
+ * @param initialValue the value the field is initialised to
+ * @returns the schema property
+ * @throws {ValueRangeError} if `bits` is not an integer in `[1, 32]`
+ *   or if `initialValue` does not fit in `bits` bits
+ */
+export function uint(bits: number, initialValue: number = 0): BitfieldSchemaProperty {
+  if (!Number.isInteger(bits) || bits < 1 || bits > BITS_PER_WORD) {
+    throw new ValueRangeError(`Bitfield width must be an integer in [1, ${BITS_PER_WORD}], got ${bits}`, {
+      value: bits,
+    });
+  }
+  if (!isValidBitfieldValue(bits, initialValue)) {
+    throw new ValueRangeError(`Initial value ${initialValue} does not fit in a ${bits}-bit field`, {
+      value: initialValue,
+    });
+  }
+  return Object.freeze({ kind: "uint", bits, initialValue });
+}
+
+/**
+ * Check if a value fits in an unsigned bitfield
+ * @param bits the width of the field in bits
+ * @param value the value to test
+ * @returns `true` if value is an integer in `[0, 2 ** bits)`
+ */
+export function isValidBitfieldValue(bits: number, value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 2 ** bits;
+}
+
 /**
  * Schema property definition
  *
- * A schema property is either a TypedArrayConstructor or
+ * A schema property is either a TypedArrayConstructor,
  * an array where the 0th index is a TypedArrayConstructor and the 1st index is
- * a default value to initialise the array to.
+ * a default value to initialise the array to,
+ * a `{ type, length }` vector of `length` elements per entity,
+ * a `bool` / `uint(bits)` bitfield,
+ * or an interned `string`.
+ * Defaults for `BigInt64Array` and `BigUint64Array` are bigints.
  *
  * @example { x: Float32Array, y: Float32Array }
  * @example { x: [Float32Array, 100], y: [Float32Array, 100] }
+ * @example { handle: [BigUint64Array, 0xffffffffffffffffn] }
+ * @example { transform: { type: Float32Array, length: 16 } }
+ * @example { visible: bool, layer: uint(3) }
+ * @example { name: string }
  * @see Schema
  */
-export type SchemaProperty = TypedArrayConstructor | [TypedArrayConstructor, number];
+export type SchemaProperty =
+  | TypedArrayConstructor
+  | [Exclude<TypedArrayConstructor, BigIntTypedArrayConstructor>, number]
+  | [BigIntTypedArrayConstructor, bigint]
+  | VectorSchemaProperty
+  | BitfieldSchemaProperty
+  | StringSchemaProperty;
 
 /**
  * A schema definition is a plain object where each property is a number
@@ -58,12 +186,20 @@ export type SchemaSpec<T> = {
 /**
  * Schemas are component storage definitions.
  *
- * Schemas use TypedArray objects and so can only store a single number per property per entity.
+ * Schemas use TypedArray objects and so can only store a single number (or bigint) per property per entity,
+ * or a fixed number of them for vector properties.
  *
  * Values in TypedArrays are initialised to 0 by default.
  *
  * To set an initial value: `{ property: [Int8Array, defaultValue] }`.
  *
+ * To store a fixed-length vector: `{ property: { type: Float32Array, length: 16 } }`.
+ * Vector values are read and written as subarrays, so declare them as TypedArrays in the definition.
+ *
+ * To pack flags and small integers into shared words: `{ visible: bool, layer: uint(3) }`.
+ *
+ * To store interned strings: `{ name: string }`.
+ *
  * @example ```
  *  type Vec2 = { x: number, y: number };
  *  const positionSchema: Schema<Vec2> = { x: Float32Array, y: Float32Array };
@@ -78,6 +214,179 @@ export type Schema<T extends SchemaSpec<T>> = {
   [K in keyof T]: SchemaProperty;
 };
 
+/**
+ * Byte alignment of a partition's arrays.
+ *
+ * A number aligns the partition and every one of its arrays (e.g., `64` to keep partitions on separate cache lines).
+ * An object aligns individual schema properties' arrays (e.g., `{ matrix: 32 }` for SIMD kernels);
+ * bitfields share the alignment of the first bitfield. Alignments are powers of two and never below 8 bytes,
+ * unless the partition's layout is `"packed"`.
+ */
+export type SchemaAlignment<T> = number | { [K in keyof T]?: number };
+
+/**
+ * How a partition's arrays are laid out.
+ *
+ * - `"declared"` places the arrays in schema order, each aligned to at least 8 bytes.
+ * - `"packed"` places them by descending alignment, each aligned only to its element size
+ *   (or its requested alignment), to minimise padding.
+ *
+ * Property names and storage access are the same in either layout.
+ */
+export type SchemaLayout = "declared" | "packed";
+
+/**
+ * Check that a value is a schema layout
+ * @param layout the value to check
+ * @returns `true` if the value is `"declared"` or `"packed"`
+ */
+export function isSchemaLayout(layout: unknown): layout is SchemaLayout {
+  return layout === "declared" || layout === "packed";
+}
+
+/**
+ * Check that a value is a valid byte alignment
+ * @param alignment the value to check
+ * @returns `true` if the value is a power of two Uint32 number
+ */
+export function isValidAlignment(alignment: unknown): alignment is number {
+  return typeof alignment === "number" && isPositiveUint32(alignment) && (alignment & (alignment - 1)) === 0;
+}
+
+/**
+ * Check that a value is a valid alignment option for a schema
+ * @param alignment the value to check
+ * @param schema the partition's schema, or `null` for tags (which only accept a number)
+ * @returns `true` if the value is an alignment, or an object of alignments for properties in the schema
+ */
+export function isValidSchemaAlignment(alignment: unknown, schema: object | null): boolean {
+  if (isValidAlignment(alignment)) return true;
+  if (!schema || !isObject(alignment)) return false;
+  return Object.entries(alignment).every(([name, value]) => Object.hasOwn(schema, name) && isValidAlignment(value));
+}
+
+/**
+ * Get the byte alignment of a schema property's array
+ * @param name the property name
+ * @param property the schema property
+ * @param alignment the partition's alignment option
+ * @param layout the partition's layout [default = "declared"]
+ * @returns the largest of the element size, the requested alignment and, unless packed, the 8-byte minimum
+ */
+export function getPropertyAlignment(
+  name: string,
+  property: SchemaProperty,
+  alignment: SchemaAlignment<Record<string, unknown>> | null = null,
+  layout: SchemaLayout = "declared",
+): number {
+  const requested = typeof alignment === "number" ? alignment : alignment?.[name] ?? 1;
+  const minimum = layout === "packed" ? 1 : MIN_ALIGNMENT;
+  return Math.max(getPropertyType(property).BYTES_PER_ELEMENT, minimum, requested);
+}
+
+/**
+ * Get a schema's properties in the order their arrays are laid out
+ * @param schema the schema
+ * @param alignment the partition's alignment option
+ * @param layout the partition's layout [default = "declared"]
+ * @returns the schema's entries, in schema order or, when packed, by descending alignment (ties keep schema order)
+ */
+export function getPropertyOrder(
+  schema: Record<string, SchemaProperty>,
+  alignment: SchemaAlignment<Record<string, unknown>> | null = null,
+  layout: SchemaLayout = "declared",
+): [string, SchemaProperty][] {
+  const entries = Object.entries(schema);
+  if (layout !== "packed") return entries;
+  const alignments = new Map(
+    entries.map(([name, value]) => [name, getPropertyAlignment(name, value, alignment, layout)]),
+  );
+  return entries.sort(([a], [b]) => alignments.get(b)! - alignments.get(a)!);
+}
+
+/**
+ * Get the TypedArray constructor of a schema property
+ * @param property the schema property
+ * @returns the property's TypedArray constructor
+ */
+export function getPropertyType(property: SchemaProperty): TypedArrayConstructor {
+  if (Array.isArray(property)) return property[0];
+  if (isBitfieldProperty(property) || isStringProperty(property)) return Uint32Array;
+  return isVectorProperty(property) ? property.type : property;
+}
+
+/**
+ * Get the number of elements a schema property stores per entity
+ * @param property the schema property
+ * @returns the vector length, or 1 for scalar properties and bitfields (which share words, see `getBitfieldLayout`)
+ */
+export function getPropertyLength(property: SchemaProperty): number {
+  return isVectorProperty(property) ? property.length : 1;
+}
+
+/**
+ * Get the value a schema property's array is initialised to
+ * @param property the schema property
+ * @returns the declared default, or zero (`0n` for bigint arrays)
+ */
+export function getPropertyDefault(property: SchemaProperty): number | bigint {
+  if (Array.isArray(property)) return property[1];
+  if (isBitfieldProperty(property)) return property.initialValue;
+  if (isStringProperty(property)) return 0;
+  return isBigIntTypedArrayConstructor(getPropertyType(property)) ? 0n : 0;
+}
+
+/**
+ * Vector schema property type guard
+ * @param property the schema property
+ * @returns `true` if the property is a `{ type, length }` vector
+ */
+export function isVectorProperty(property: SchemaProperty): property is VectorSchemaProperty {
+  return isObject(property) && "length" in property;
+}
+
+/**
+ * Bitfield schema property type guard
+ * @param property the schema property
+ * @returns `true` if the property is a `bool` or `uint(bits)` bitfield
+ */
+export function isBitfieldProperty(property: SchemaProperty): property is BitfieldSchemaProperty {
+  return isObject(property) && "bits" in property;
+}
+
+/**
+ * String schema property type guard
+ * @param property the schema property
+ * @returns `true` if the property is an interned `string`
+ */
+export function isStringProperty(property: SchemaProperty): property is StringSchemaProperty {
+  return isObject(property) && "kind" in property && property.kind === "string";
+}
+
+/**
+ * Pack a schema's bitfield properties into 32-bit words, in declaration order.
+ * Fields never straddle a word boundary.
+ * @param schema the schema
+ * @returns the number of words each entity needs and where each bitfield lives
+ */
+export function getBitfieldLayout(
+  schema: Record<string, SchemaProperty>,
+): { words: number; fields: Map<string, BitfieldPlacement> } {
+  const fields = new Map<string, BitfieldPlacement>();
+  let word = 0;
+  let shift = 0;
+  for (const [name, property] of Object.entries(schema)) {
+    if (!isBitfieldProperty(property)) continue;
+    if (shift + property.bits > BITS_PER_WORD) {
+      word++;
+      shift = 0;
+    }
+    fields.set(name, { property, word, shift });
+    shift += property.bits;
+  }
+  return { words: fields.size ? word + 1 : 0, fields };
+}
+
 /**
  * @internal
  * Validates the names and values of a schema's entries
@@ -87,11 +396,22 @@ const isValidSchemaEntry = (prop: [string, SchemaProperty]): boolean => {
   if (!isValidName(name)) {
     return false;
   }
+  if (isObject(value) && "kind" in value && value.kind === "string") return true;
+  if (isObject(value) && "bits" in value) {
+    const { kind, bits, initialValue } = value as BitfieldSchemaProperty;
+    if (kind === "bool") return bits === 1 && isValidBitfieldValue(bits, initialValue);
+    return kind === "uint" && Number.isInteger(bits) && bits >= 1 && bits <= BITS_PER_WORD &&
+      isValidBitfieldValue(bits, initialValue);
+  }
+  if (isObject(value)) {
+    const { type, length } = value as VectorSchemaProperty;
+    return isTypedArrayConstructor(type) && Number.isSafeInteger(length) && length > 0;
+  }
   if (!Array.isArray(value)) {
     return isTypedArrayConstructor(value);
   }
   // if this is an array, the user wants to set an initial value
-  const [arrayConstructor, n] = value as [TypedArrayConstructor, number];
+  const [arrayConstructor, n] = value as [TypedArrayConstructor, number | bigint];
   return isTypedArrayConstructor(arrayConstructor) && isValidTypedArrayValue(arrayConstructor, n);
 };
 
@@ -113,47 +433,138 @@ export const isSchema = (schema: unknown): schema is Schema<SchemaSpec<any>> | n
   }
 };
 
+/**
+ * Check a schema, reporting the first invalid property
+ * @param schema the schema to check
+ * @param partitionName the partition the schema belongs to, if known
+ * @throws {InvalidSchemaError} if the schema is not an object of valid properties
+ */
+export function validateSchema(schema: unknown, partitionName?: string): void {
+  if (!isObject(schema)) {
+    throw new InvalidSchemaError("Schema must be an object", { partitionName });
+  }
+  const entries = Object.entries(schema) as [string, SchemaProperty][];
+  if (!entries.length) {
+    throw new InvalidSchemaError("Schema must define at least one property", { partitionName });
+  }
+  for (const entry of entries) {
+    let valid = false;
+    try {
+      valid = isValidSchemaEntry(entry);
+    } catch (_) {
+      // e.g., a getter that throws
+    }
+    if (!valid) {
+      const [property] = entry;
+      throw new InvalidSchemaError(`Invalid schema property "${property}"`, { partitionName, property });
+    }
+  }
+}
+
+/**
+ * Describe a schema as a canonical string of its property names, order, types and defaults.
+ *
+ * Equivalent schemas produce the same string regardless of object identity,
+ * e.g. `[Float32Array, 0]` and `Float32Array` both describe a zero-initialised Float32 property.
+ *
+ * @param schema the schema to describe
+ * @returns the canonical description
+ * @internal Used by `schemaHash()` and layout hashing.
+ */
+export function getSchemaSignature(schema: Record<string, SchemaProperty>): string {
+  return Object.entries(schema).map(([name, property]) => {
+    if (isStringProperty(property)) return `${name}:string`;
+    if (isBitfieldProperty(property)) return `${name}:${property.kind}(${property.bits})=${property.initialValue}`;
+    const type = getPropertyType(property).name;
+    if (isVectorProperty(property)) return `${name}:${type}[${property.length}]`;
+    return `${name}:${type}=${getPropertyDefault(property)}`;
+  }).join(";");
+}
+
+/**
+ * Compute a stable fingerprint of a schema.
+ *
+ * The hash covers property names, declaration order, types, vector lengths, bitfield widths and defaults,
+ * so it can detect incompatible snapshots or data files without comparing constructor references.
+ *
+ * @param schema the schema to fingerprint
+ * @returns the hash as 16 lowercase hex digits
+ * @throws {UnsupportedSchemaError} if the schema is not one
+ *
+ * @example ```
+ * schemaHash({ x: Float32Array, y: Float32Array }) === schemaHash({ x: [Float32Array, 0], y: Float32Array }); // true
+ * ```
+ */
+export function schemaHash<T extends SchemaSpec<T>>(schema: Schema<T>): string {
+  if (!schema || !isSchema(schema)) {
+    throw new UnsupportedSchemaError("Invalid schema provided to schemaHash");
+  }
+  return hashString(getSchemaSignature(schema as Record<string, SchemaProperty>));
+}
+
 /**
  * Calculate the aligned size of a single entity in bytes
  * @param schema the schema to calculate the size of
+ * @param alignment the partition's alignment option [default = 8 bytes, or the element size if larger]
+ * @param layout the partition's layout [default = "declared"]
  * @returns the size in bytes for one entity
+ * @throws {UnsupportedSchemaError} if the schema, alignment or layout is not one
+ * @throws {InvalidSchemaError} if a property's alignment is invalid, or the size overflows
  */
-export function getEntitySize<T extends SchemaSpec<T>>(schema: Schema<T>): number {
+export function getEntitySize<T extends SchemaSpec<T>>(
+  schema: Schema<T>,
+  alignment: SchemaAlignment<T> | null = null,
+  layout: SchemaLayout = "declared",
+): number {
   if (!schema || !isSchema(schema)) {
-    throw new TypeError("Invalid schema provided to getEntitySize");
+    throw new UnsupportedSchemaError("Invalid schema provided to getEntitySize");
+  }
+  if (alignment !== null && !isValidSchemaAlignment(alignment, schema)) {
+    throw new UnsupportedSchemaError("Invalid alignment provided to getEntitySize");
   }
+  if (!isSchemaLayout(layout)) {
+    throw new UnsupportedSchemaError("Invalid layout provided to getEntitySize");
+  }
+  const requested = alignment as SchemaAlignment<Record<string, unknown>> | null;
 
   let size = 0;
   let maxAlignment = 1;
-  const schemaEntries = Object.entries(schema);
+  const schemaEntries = getPropertyOrder(schema as Record<string, SchemaProperty>, requested, layout);
 
   if (schemaEntries.length === 0) return 0;
 
   // First pass: find maximum alignment requirement
   for (const [name, value] of schemaEntries) {
-    const Ctr = Array.isArray(value) ? value[0] : value;
-    const alignment = Math.max(Ctr.BYTES_PER_ELEMENT, MIN_ALIGNMENT);
+    const propertyAlignment = getPropertyAlignment(name, value, requested, layout);
 
     // Validate alignment is power of 2
-    if ((alignment & (alignment - 1)) !== 0) {
-      throw new Error(`Invalid alignment ${alignment} for property "${name}"`);
+    if ((propertyAlignment & (propertyAlignment - 1)) !== 0) {
+      throw new InvalidSchemaError(`Invalid alignment ${propertyAlignment} for property "${name}"`, { property: name });
     }
 
-    maxAlignment = Math.max(maxAlignment, alignment);
+    maxAlignment = Math.max(maxAlignment, propertyAlignment);
   }
 
   // Second pass: calculate aligned size
+  // Bitfields share one set of packed words, counted at the first bitfield
+  const bitfields = getBitfieldLayout(schema as Record<string, SchemaProperty>);
+  let bitfieldsCounted = false;
   for (const [name, value] of schemaEntries) {
-    const Ctr = Array.isArray(value) ? value[0] : value;
-    const alignment = Math.max(Ctr.BYTES_PER_ELEMENT, MIN_ALIGNMENT);
-    const bytes = Ctr.BYTES_PER_ELEMENT;
+    if (isBitfieldProperty(value)) {
+      if (bitfieldsCounted) continue;
+      bitfieldsCounted = true;
+    }
+    const Ctr = getPropertyType(value);
+    const propertyAlignment = getPropertyAlignment(name, value, requested, layout);
+    const elements = isBitfieldProperty(value) ? bitfields.words : getPropertyLength(value);
+    const bytes = Ctr.BYTES_PER_ELEMENT * elements;
 
     // Align current offset
-    const alignedOffset = (size + alignment - 1) & ~(alignment - 1);
+    const alignedOffset = (size + propertyAlignment - 1) & ~(propertyAlignment - 1);
 
     // Check for overflow
     if (alignedOffset < size || alignedOffset > Number.MAX_SAFE_INTEGER - bytes) {
-      throw new Error(`Size calculation overflow at property "${name}"`);
+      throw new InvalidSchemaError(`Size calculation overflow at property "${name}"`, { property: name });
     }
 
     size = alignedOffset + bytes;
@@ -162,7 +573,7 @@ export function getEntitySize<T extends SchemaSpec<T>>(schema: Schema<T>): numbe
   // Align final size
   const finalSize = (size + maxAlignment - 1) & ~(maxAlignment - 1);
   if (finalSize < size) {
-    throw new Error("Final size alignment overflow");
+    throw new InvalidSchemaError("Final size alignment overflow");
   }
 
   return finalSize;
@@ -0,0 +1,407 @@
+/**
+ * @module      SchemaParser
+ * @description Schema definitions from a compact string DSL and JSON, for loading specs from data files.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { SchemaParseError, type SchemaParseErrorOptions, UnsupportedSchemaError } from "./Errors.ts";
+import {
+  bool,
+  getPropertyDefault,
+  getPropertyType,
+  isBitfieldProperty,
+  isSchema,
+  isStringProperty,
+  isVectorProperty,
+  type Schema,
+  type SchemaProperty,
+  type SchemaSpec,
+  string,
+  uint,
+} from "./Schema.ts";
+import {
+  getTypedArrayConstructor,
+  isBigIntTypedArrayConstructor,
+  isFloat16ArraySupported,
+  isObject,
+  isValidName,
+  isValidTypedArrayValue,
+  type TypedArrayConstructor,
+} from "./utils.ts";
+
+/**
+ * A schema property in JSON form.
+ *
+ * - a type name: `"Float32"` (or `"Float32Array"`, `"f32"`), `"f32[16]"`, `"bool"`, `"uint(3)"` or `"string"`
+ * - a `[type, default]` pair: `["Uint16", 100]`, `["bool", true]`, `["BigInt64", "-1"]` (bigint defaults are decimal strings)
+ * - a `{ type, length }` vector: `{ "type": "Float32", "length": 16 }`
+ */
+export type SchemaJSONProperty = string | [string, number | string | boolean] | { type: string; length: number };
+
+/** A schema in JSON form, mapping property names to `SchemaJSONProperty` values */
+export type SchemaJSON = Record<string, SchemaJSONProperty>;
+
+/** Short DSL aliases for the TypedArray constructor names */
+const TYPE_ALIASES: Record<string, string> = {
+  i8: "Int8Array",
+  u8: "Uint8Array",
+  u8c: "Uint8ClampedArray",
+  i16: "Int16Array",
+  u16: "Uint16Array",
+  i32: "Int32Array",
+  u32: "Uint32Array",
+  f16: "Float16Array",
+  f32: "Float32Array",
+  f64: "Float64Array",
+  i64: "BigInt64Array",
+  u64: "BigUint64Array",
+};
+
+const IDENTIFIER = /[A-Za-z_$][A-Za-z0-9_$]*/y;
+const INTEGER = /[0-9]+/y;
+const LITERAL =
+  /true|false|[+-]?(?:0[xX][0-9a-fA-F]+|0[bB][01]+|(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?)/y;
+
+/**
+ * Resolve a TypedArray type name
+ * @param name a DSL alias (`"f32"`), a short name (`"Float32"`) or a constructor name (`"Float32Array"`)
+ * @returns the constructor, or `undefined` if the name is unknown or unsupported by the runtime
+ */
+function resolveTypeName(name: string): TypedArrayConstructor | undefined {
+  const full = Object.hasOwn(TYPE_ALIASES, name) ? TYPE_ALIASES[name]! : name.endsWith("Array") ? name : `${name}Array`;
+  return getTypedArrayConstructor(full);
+}
+
+/**
+ * Give a parsed schema property its default value
+ * @param property the property without a default
+ * @param value the default, as DSL literal text or a JSON value
+ * @param fail reports an invalid default
+ * @returns the property with its default
+ */
+function withDefault(property: SchemaProperty, value: unknown, fail: (message: string) => never): SchemaProperty {
+  if (isStringProperty(property)) fail("String properties cannot have a default value");
+  if (isVectorProperty(property)) fail("Vector properties cannot have a default value");
+  if (isBitfieldProperty(property)) {
+    const n = value === true || value === "true" ? 1 : value === false || value === "false" ? 0 : Number(value);
+    if (property.kind === "bool") {
+      if (n !== 0 && n !== 1) fail(`Invalid default value ${value} for bool`);
+      return n ? Object.freeze({ ...bool, initialValue: 1 }) : bool;
+    }
+    if (typeof value === "boolean" || !Number.isInteger(n) || n < 0 || n >= 2 ** property.bits) {
+      fail(`Default value ${value} does not fit in a ${property.bits}-bit field`);
+    }
+    return uint(property.bits, n);
+  }
+  const Ctr = getPropertyType(property);
+  let n: number | bigint = NaN;
+  if (isBigIntTypedArrayConstructor(Ctr)) {
+    try {
+      if (typeof value === "string" || (typeof value === "number" && Number.isSafeInteger(value))) n = BigInt(value);
+    } catch (_) {
+      // Not an integer literal, reported below
+    }
+  } else if (typeof value === "number" || (typeof value === "string" && value !== "true" && value !== "false")) {
+    n = Number(value);
+  }
+  if (!isValidTypedArrayValue(Ctr, n)) {
+    fail(`Invalid default value ${value} for ${Ctr.name}`);
+  }
+  return [Ctr, n] as SchemaProperty;
+}
+
+/** A cursor over DSL text that tracks positions for error reporting */
+class Scanner {
+  readonly source: string;
+  offset = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  /** `true` once every character has been consumed */
+  get done(): boolean {
+    return this.offset >= this.source.length;
+  }
+
+  /** Get the 1-based line and column of an offset */
+  position(offset: number): { line: number; column: number } {
+    const before = this.source.slice(0, offset);
+    return { line: before.split("\n").length, column: offset - before.lastIndexOf("\n") };
+  }
+
+  /** Create an error at an offset, reporting its line and column */
+  error(message: string, offset: number = this.offset, property?: string): SchemaParseError {
+    return new SchemaParseError(message, { ...this.position(offset), property });
+  }
+
+  /** Skip spaces, tabs and `#` comments, but not newlines */
+  skipSpace(): void {
+    while (!this.done) {
+      const char = this.source[this.offset]!;
+      if (char === " " || char === "\t" || char === "\r") {
+        this.offset++;
+      } else if (char === "#") {
+        while (!this.done && this.source[this.offset] !== "\n") this.offset++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Consume the separators between entries: commas, newlines, whitespace and comments
+   * @returns `true` if a separator (or the end of the source) was found
+   */
+  separator(): boolean {
+    this.skipSpace();
+    if (this.done) return true;
+    const char = this.source[this.offset];
+    if (char !== "," && char !== "\n") return false;
+    while (!this.done) {
+      this.skipSpace();
+      const next = this.source[this.offset];
+      if (next !== "," && next !== "\n") break;
+      this.offset++;
+    }
+    return true;
+  }
+
+  /** Consume a character if it is next */
+  accept(char: string): boolean {
+    this.skipSpace();
+    if (this.source[this.offset] !== char) return false;
+    this.offset++;
+    return true;
+  }
+
+  /** Consume a character, or throw if something else is next */
+  expect(char: string, property?: string): void {
+    if (!this.accept(char)) throw this.error(`Expected "${char}"`, this.offset, property);
+  }
+
+  /** Consume a token matching a sticky pattern, or throw describing what was expected */
+  match(pattern: RegExp, expected: string, property?: string): { text: string; offset: number } {
+    this.skipSpace();
+    pattern.lastIndex = this.offset;
+    const match = pattern.exec(this.source);
+    if (!match) throw this.error(`Expected ${expected}`, this.offset, property);
+    const offset = this.offset;
+    this.offset += match[0].length;
+    return { text: match[0], offset };
+  }
+
+  /**
+   * Consume a property type: a TypedArray name with an optional `[length]`, `bool`, `uint(bits)` or `string`
+   * @param property the property being parsed, for error reporting
+   * @returns the property without a default
+   */
+  type(property?: string): SchemaProperty {
+    const { text, offset } = this.match(IDENTIFIER, "a type", property);
+    if (text === "bool") return bool;
+    if (text === "string") return string;
+    if (text === "uint") {
+      this.expect("(", property);
+      const bits = this.match(INTEGER, "a bit width", property);
+      this.expect(")", property);
+      try {
+        return uint(Number(bits.text));
+      } catch (error) {
+        throw this.error((error as Error).message, bits.offset, property);
+      }
+    }
+    const Ctr = resolveTypeName(text);
+    if (!Ctr) {
+      const isFloat16 = text === "f16" || text === "Float16" || text === "Float16Array";
+      const reason = isFloat16 && !isFloat16ArraySupported()
+        ? "is not supported by this runtime"
+        : "is not a valid type";
+      throw this.error(`"${text}" ${reason}`, offset, property);
+    }
+    if (!this.accept("[")) return Ctr;
+    const length = this.match(INTEGER, "a vector length", property);
+    this.expect("]", property);
+    const n = Number(length.text);
+    if (!Number.isSafeInteger(n) || n < 1) {
+      throw this.error(`Invalid vector length ${length.text}`, length.offset, property);
+    }
+    return { type: Ctr, length: n };
+  }
+}
+
+/**
+ * Parse a schema from the compact DSL.
+ *
+ * Entries are `name: type` or `name: type = default`, separated by commas or newlines. `#` starts a comment.
+ *
+ * | Type                                      | Schema property                         |
+ * | ----------------------------------------- | --------------------------------------- |
+ * | `i8` `u8` `u8c` `i16` `u16` `i32` `u32`   | Int8Array ... Uint32Array               |
+ * | `f16` `f32` `f64` `i64` `u64`             | Float16Array ... BigUint64Array         |
+ * | `Float32`, `Float32Array`, ...            | the named TypedArray                    |
+ * | `f32[16]`                                 | `{ type: Float32Array, length: 16 }`    |
+ * | `bool`, `uint(3)`                         | `bool`, `uint(3)`                       |
+ * | `string`                                  | `string`                                |
+ *
+ * @param source the DSL text
+ * @returns the schema
+ * @throws {SchemaParseError} with the line and column of the first syntax error, invalid name,
+ *   duplicate property, unknown type or invalid default
+ *
+ * @example ```
+ * const schema = parseSchema<Vec2 & { hp: number }>("x: f32, y: f32, hp: u16 = 100");
+ * // { x: Float32Array, y: Float32Array, hp: [Uint16Array, 100] }
+ * ```
+ */
+export function parseSchema<T extends SchemaSpec<T> = Record<string, unknown>>(source: string): Schema<T> {
+  if (typeof source !== "string") {
+    throw new TypeError("Schema source must be a string");
+  }
+  const scanner = new Scanner(source);
+  const schema: Record<string, SchemaProperty> = {};
+  scanner.separator();
+  while (!scanner.done) {
+    const name = scanner.match(IDENTIFIER, "a property name");
+    if (!isValidName(name.text)) {
+      throw scanner.error(`Invalid property name "${name.text}"`, name.offset, name.text);
+    }
+    if (Object.hasOwn(schema, name.text)) {
+      throw scanner.error(`Duplicate property "${name.text}"`, name.offset, name.text);
+    }
+    scanner.expect(":", name.text);
+    let property = scanner.type(name.text);
+    if (scanner.accept("=")) {
+      const value = scanner.match(LITERAL, "a default value", name.text);
+      property = withDefault(property, value.text, (message) => {
+        throw scanner.error(message, value.offset, name.text);
+      });
+    }
+    schema[name.text] = property;
+    if (!scanner.separator()) {
+      throw scanner.error('Expected "," or a new line', scanner.offset, name.text);
+    }
+  }
+  if (!isSchema(schema)) {
+    throw new SchemaParseError("Schema must define at least one property");
+  }
+  return schema as Schema<T>;
+}
+
+/**
+ * Find the position of a top-level property name in JSON text
+ * @returns the error options for the property
+ */
+function locateProperty(text: string, property: string): SchemaParseErrorOptions {
+  const quoted = JSON.stringify(property);
+  for (let offset = text.indexOf(quoted); offset !== -1; offset = text.indexOf(quoted, offset + 1)) {
+    if (/^\s*:/.test(text.slice(offset + quoted.length))) {
+      return { ...new Scanner(text).position(offset), property };
+    }
+  }
+  return { property };
+}
+
+/**
+ * Build a schema from its JSON form.
+ *
+ * @param json the JSON text, or an already parsed object
+ * @returns the schema
+ * @throws {SchemaParseError} if the JSON is malformed or a property is invalid,
+ *   with the property's line and column when `json` is text
+ *
+ * @example ```
+ * const schema = schemaFromJSON({ x: "Float32", y: "Float32", hp: ["Uint16", 100], matrix: { type: "f32", length: 16 } });
+ * ```
+ */
+export function schemaFromJSON<T extends SchemaSpec<T> = Record<string, unknown>>(
+  json: string | SchemaJSON,
+): Schema<T> {
+  let value: unknown = json;
+  if (typeof json === "string") {
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw new SchemaParseError(`Invalid JSON: ${(error as Error).message}`);
+    }
+  }
+  if (!isObject(value) || Array.isArray(value)) {
+    throw new SchemaParseError("Schema JSON must be an object");
+  }
+
+  const schema: Record<string, SchemaProperty> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    const fail = (message: string): never => {
+      const options = typeof json === "string" ? locateProperty(json, name) : { property: name };
+      throw new SchemaParseError(`${message} (schema property "${name}")`, options);
+    };
+    if (!isValidName(name)) fail(`Invalid property name "${name}"`);
+
+    const parseType = (type: unknown): SchemaProperty => {
+      if (typeof type !== "string") return fail("Expected a type name");
+      const scanner = new Scanner(type);
+      let property: SchemaProperty;
+      try {
+        property = scanner.type();
+        scanner.skipSpace();
+      } catch (error) {
+        // Report type errors at the property, rather than within the type string
+        return fail(`${(error as Error).message.replace(/ at line \d+, column \d+$/, "")} in type "${type}"`);
+      }
+      if (!scanner.done) fail(`Unexpected "${type.slice(scanner.offset)}" in type "${type}"`);
+      return property;
+    };
+
+    if (typeof entry === "string") {
+      schema[name] = parseType(entry);
+    } else if (Array.isArray(entry)) {
+      if (entry.length !== 2) fail("Expected a [type, default] pair");
+      schema[name] = withDefault(parseType(entry[0]), entry[1], fail);
+    } else if (isObject(entry)) {
+      const { type, length } = entry as { type: unknown; length: unknown };
+      const Ctr = parseType(type);
+      if (typeof Ctr !== "function") fail(`"${type}" is not a TypedArray type`);
+      if (!Number.isSafeInteger(length) || (length as number) < 1) fail(`Invalid vector length ${length}`);
+      schema[name] = { type: Ctr as TypedArrayConstructor, length: length as number };
+    } else {
+      fail("Expected a type name, a [type, default] pair or a { type, length } vector");
+    }
+  }
+  if (!isSchema(schema)) {
+    throw new SchemaParseError("Schema must define at least one property");
+  }
+  return schema as Schema<T>;
+}
+
+/**
+ * Convert a schema to its JSON form, which `schemaFromJSON()` turns back into an equivalent schema
+ * @param schema the schema
+ * @returns the JSON-serializable schema, with bigint defaults as decimal strings
+ * @throws {UnsupportedSchemaError} if the schema is not one
+ */
+export function schemaToJSON<T extends SchemaSpec<T>>(schema: Schema<T>): SchemaJSON {
+  if (!schema || !isSchema(schema)) {
+    throw new UnsupportedSchemaError("Invalid schema provided to schemaToJSON");
+  }
+  const json: SchemaJSON = {};
+  for (const [name, property] of Object.entries(schema) as [string, SchemaProperty][]) {
+    if (isStringProperty(property)) {
+      json[name] = "string";
+    } else if (isBitfieldProperty(property)) {
+      const type = property.kind === "bool" ? "bool" : `uint(${property.bits})`;
+      const initialValue = property.kind === "bool" ? property.initialValue === 1 : property.initialValue;
+      json[name] = property.initialValue ? [type, initialValue] : type;
+    } else {
+      const type = getPropertyType(property).name.replace(/Array$/, "");
+      if (isVectorProperty(property)) {
+        json[name] = { type, length: property.length };
+      } else if (Array.isArray(property)) {
+        const value = getPropertyDefault(property);
+        json[name] = [type, typeof value === "bigint" ? value.toString() : value];
+      } else {
+        json[name] = type;
+      }
+    }
+  }
+  return json;
+}
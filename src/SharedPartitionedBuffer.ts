@@ -0,0 +1,239 @@
+/**
+ * @module      SharedPartitionedBuffer
+ * @description A PartitionedBuffer whose partitions live in a SharedArrayBuffer.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import {
+  type BufferDescription,
+  type BufferStats,
+  type EntityPartitionKey,
+  type PartitionedBufferLayout,
+  type PartitionedBufferOptions,
+  type PartitionEntry,
+  type PartitionPlan,
+  validateBufferArgs,
+} from "./Layout.ts";
+import type { Partition, PartitionSpec, PartitionStorage } from "./Partition.ts";
+import type { PartitionedMemory } from "./PartitionedMemory.ts";
+import { PartitionRegistry } from "./PartitionRegistry.ts";
+import { Query, type QuerySpec } from "./Query.ts";
+import type { SchemaSpec } from "./Schema.ts";
+
+/**
+ * A SharedPartitionedBuffer manages named storage partitions over a SharedArrayBuffer,
+ * so the same partition data can be read and written from worker threads.
+ *
+ * Post `memory` and `getLayout()` to a worker, then call
+ * `SharedPartitionedBuffer.fromLayout(memory, layout)` there to get identical storage handles.
+ *
+ * __Note__: sparse (`maxOwners`) partitions share their dense values, but each thread keeps its own
+ * entity-to-slot mapping, and `fromLayout()` rebuilds it empty. Treat one thread as each sparse partition's
+ * single writer: only it adds, removes and accesses entities by ID, while other threads may read the shared
+ * dense arrays in `partitions`.
+ * Tag bitsets are shared too, but updates are not atomic, so each tag should only be written from one thread at a time.
+ * `string` properties are not supported, because the string table cannot live in shared memory.
+ *
+ * @example ```
+ * // main thread
+ * const buffer = new SharedPartitionedBuffer(1024, 64);
+ * buffer.addPartition({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+ * worker.postMessage({ memory: buffer.memory, layout: buffer.getLayout() });
+ *
+ * // worker
+ * self.onmessage = ({ data }) => {
+ *   const buffer = SharedPartitionedBuffer.fromLayout(data.memory, data.layout);
+ *   const position = buffer.getPartition<Vec2>("position");
+ * };
+ * ```
+ */
+export class SharedPartitionedBuffer implements PartitionedMemory {
+  /** The maximum possible number of owners per partition */
+  readonly maxEntitiesPerPartition: number;
+
+  /** The shared memory backing every partition */
+  readonly memory: SharedArrayBuffer;
+
+  /** Partition allocation and bookkeeping for the shared memory */
+  readonly #registry: PartitionRegistry;
+
+  /**
+   * Create a new SharedPartitionedBuffer
+   * @param size the size of the buffer, or an existing SharedArrayBuffer to manage
+   * @param maxEntitiesPerPartition the length of each row in the buffer [min = 8]
+   * @param options optional buffer options (e.g., `maxByteLength` for a growable buffer)
+   * @throws {InvalidBufferOptionsError} if `size` or `maxEntitiesPerPartition` are not numbers
+   *   or if `size` or `maxEntitiesPerPartition` are not positive safe integers
+   *   or if `size` is not a multiple of `maxEntitiesPerPartition`
+   *   or if `maxByteLength` is not a Uint32 number >= `size`
+   */
+  constructor(
+    size: number | SharedArrayBuffer,
+    maxEntitiesPerPartition: number = typeof size === "number" ? size : size.byteLength,
+    options: PartitionedBufferOptions = {},
+  ) {
+    if (typeof size === "number") {
+      validateBufferArgs(size, maxEntitiesPerPartition, options);
+      this.memory = new SharedArrayBuffer(size, { maxByteLength: options.maxByteLength });
+    } else {
+      if (!(size instanceof SharedArrayBuffer)) {
+        throw new TypeError("size must be a number or a SharedArrayBuffer");
+      }
+      validateBufferArgs(size.byteLength, maxEntitiesPerPartition, {});
+      this.memory = size;
+    }
+    this.#registry = new PartitionRegistry(this.memory, maxEntitiesPerPartition);
+    this.maxEntitiesPerPartition = maxEntitiesPerPartition;
+  }
+
+  /**
+   * Reconstruct a buffer from shared memory and a layout produced by `getLayout()`.
+   *
+   * The memory's contents are left untouched; storage handles are views over the same bytes.
+   * Sparse partitions share their dense arrays, but start with an empty entity-to-slot mapping.
+   *
+   * @param memory the SharedArrayBuffer received from another thread
+   * @param layout the layout of the original buffer
+   * @returns a buffer with the same partitions, byte offsets and lengths
+   * @throws {TypeError} If the layout is malformed or does not fit the memory
+   */
+  static fromLayout(memory: SharedArrayBuffer, layout: PartitionedBufferLayout): SharedPartitionedBuffer {
+    const buffer = new SharedPartitionedBuffer(memory, layout?.maxEntitiesPerPartition);
+    buffer.#registry.attach(layout);
+    return buffer;
+  }
+
+  /** The size of the shared memory in bytes */
+  get byteLength(): number {
+    return this.memory.byteLength;
+  }
+
+  /** Iterate over the registered partitions and their storage in layout order */
+  [Symbol.iterator](): IterableIterator<PartitionEntry> {
+    return this.#registry.entries();
+  }
+
+  /** Add a partition to the buffer */
+  addPartition<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionStorage<T> {
+    return this.#registry.add(specOrPartition);
+  }
+
+  /** Check whether `addPartition()` would succeed, without adding the partition */
+  canAddPartition<T extends SchemaSpec<T> | null = null>(specOrPartition: PartitionSpec<T> | Partition<T>): boolean {
+    return this.#registry.canAdd(specOrPartition);
+  }
+
+  /** Clear the buffer and release references */
+  clear(): this {
+    this.#registry.clear();
+    return this;
+  }
+
+  /** Copy an entity's values and tags to another entity, across every partition or a selection of them */
+  copyEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.copyEntity(from, to, keys);
+  }
+
+  /** Report the buffer's layout for debugging */
+  describe(): BufferDescription {
+    return this.#registry.describe();
+  }
+
+  /** Report memory usage for monitoring */
+  stats(): BufferStats {
+    return this.#registry.stats();
+  }
+
+  /** The amount of free space in bytes in the buffer's memory */
+  getFreeSpace(): number {
+    return this.#registry.getFreeSpace();
+  }
+
+  /** The amount of free space in bytes the buffer could provide after growing to its `maxByteLength` */
+  getMaxFreeSpace(): number {
+    return this.#registry.getMaxFreeSpace();
+  }
+
+  /** Describe where every partition lives */
+  getLayout(): PartitionedBufferLayout {
+    return this.#registry.getLayout();
+  }
+
+  /** Get a partition by name or spec */
+  getPartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): PartitionStorage<T> | undefined {
+    return this.#registry.get(key);
+  }
+
+  /** Get the current offset into the buffer's memory */
+  getOffset(): number {
+    return this.#registry.getOffset();
+  }
+
+  /** Check if a partition exists */
+  hasPartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean {
+    return this.#registry.has(key);
+  }
+
+  /** Compute a stable fingerprint of the buffer's layout */
+  layoutHash(): string {
+    return this.#registry.layoutHash();
+  }
+
+  /** Move an entity's values and tags to another entity, across every partition or a selection of them */
+  moveEntity(from: number, to: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.moveEntity(from, to, keys);
+  }
+
+  /** Work out where `addPartition()` would place a partition, without adding it or changing the buffer */
+  planPartition<T extends SchemaSpec<T> | null = null>(
+    specOrPartition: PartitionSpec<T> | Partition<T>,
+  ): PartitionPlan {
+    return this.#registry.plan(specOrPartition);
+  }
+
+  /** Iterate over the registered partition names in layout order, including tags */
+  *partitionNames(): IterableIterator<string> {
+    for (const [partition] of this.#registry.entries()) yield partition.name;
+  }
+
+  /** Iterate over the registered partitions in layout order, including tags */
+  // deno-lint-ignore no-explicit-any
+  *partitions(): IterableIterator<Partition<any>> {
+    for (const [partition] of this.#registry.entries()) yield partition;
+  }
+
+  /** Return every partition to its state when it was added, keeping the layout and storage handles */
+  reset(): this {
+    this.#registry.reset();
+    return this;
+  }
+
+  /** Restore an entity's values to their declared defaults, across every partition or a selection of them */
+  resetEntity(entity: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.resetEntity(entity, keys);
+  }
+
+  /** Exchange two entities' values and tags, across every partition or a selection of them */
+  swapEntities(a: number, b: number, keys?: EntityPartitionKey[]): void {
+    this.#registry.swapEntities(a, b, keys);
+  }
+
+  /** Query the entities that belong to several partitions */
+  query(spec: QuerySpec): Query {
+    return new Query(this.#registry, spec);
+  }
+
+  /** Remove a partition from the buffer */
+  removePartition<T extends SchemaSpec<T> | null = null>(
+    key: PartitionSpec<T> | Partition<T> | string,
+  ): boolean {
+    return this.#registry.remove(key);
+  }
+}
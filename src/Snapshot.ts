@@ -0,0 +1,429 @@
+/**
+ * @module      Snapshot
+ * @description Binary encoding of a PartitionedBuffer's layout, contents and sparse mappings.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { InvalidSnapshotError } from "./Errors.ts";
+import type { ByteRange, PartitionedBufferLayout, PartitionLayout, PropertyLayout } from "./Layout.ts";
+import { getTypedArrayConstructor, isBigIntTypedArrayConstructor } from "./utils.ts";
+
+/** "PBUF" in ASCII */
+const MAGIC = 0x46554250;
+
+/** The current snapshot format version */
+export const SNAPSHOT_VERSION = 6;
+
+/** The oldest snapshot format version that can still be decoded */
+const MIN_SNAPSHOT_VERSION = 1;
+
+/** Size of the fixed header in bytes */
+const HEADER_SIZE = 32;
+
+/** Header flag: the buffer is resizable */
+const FLAG_RESIZABLE = 1;
+
+/** Partition flag: the partition is a tag */
+const FLAG_TAG = 1;
+
+/** Partition flag: the partition has a packed layout */
+const FLAG_PACKED = 2;
+
+/** Encoded placeholder for `null` numeric fields */
+const NULL_VALUE = -1;
+
+/**
+ * A decoded snapshot
+ *
+ * Binary format (little-endian):
+ * - header: magic `u32`, version `u16`, flags `u16`, maxEntitiesPerPartition `u32`,
+ *   byteLength `u32`, maxByteLength `u32`, offset `u32`, free range count `u32`, partition count `u32`
+ * - free list: byteOffset `u32`, byteLength `u32` per range
+ * - partition table: name `str`, flags `u8` (tag `1`, packed layout `2`), maxOwners `f64`, maxEntityId `f64`, version `u32`, alignment `u32`,
+ *   byteOffset `u32`, byteLength `u32`, property count `u16`, then per property: name `str`, type `str`,
+ *   initialValue `f64` (`u64` for bigint arrays), byteOffset `u32`, length `u32`, elementsPerEntity `u32`,
+ *   bits `u8` (`0` unless the property is a bitfield), alignment `u32`
+ *   (`0` unless the partition's `alignment` is set per property, in which case the partition's is `0`)
+ * - raw bytes: `offset` bytes from the start of the buffer
+ * - sparse mappings: per sparse partition in table order, a count `u32` then entity `f64`, slot `u32` pairs
+ * - string table: a count `u32` then handle `u32`, refCount `u32`, value `text` per string
+ *
+ * Version 1 snapshots have no elementsPerEntity field; it is decoded as `1`.
+ * Versions 1 and 2 have no bits field; it is decoded as `0`.
+ * Versions before 4 have no string table; it is decoded as empty.
+ * Versions before 5 have no partition schema version; it is decoded as `0`.
+ * Versions before 6 have no alignment fields; they are decoded as `null`.
+ *
+ * Strings (`str`) are a `u8` length followed by ASCII bytes (names are always ASCII).
+ * Text (`text`) is a `u32` length followed by that many UTF-16 code units (`u16`).
+ * `null` numbers are stored as -1.
+ */
+export type Snapshot = {
+  /** The size of the buffer in bytes */
+  byteLength: number;
+  /** The maximum size of the buffer in bytes, or `null` if the buffer is not resizable */
+  maxByteLength: number | null;
+  /** The partition layout */
+  layout: PartitionedBufferLayout;
+  /** The buffer's contents up to `layout.offset` */
+  data: Uint8Array;
+  /** `[entity, dense slot]` pairs for each sparse partition, by partition name */
+  sparse: Map<string, [number, number][]>;
+  /** `[handle, string, refCount]` entries of the string table */
+  strings: [number, string, number][];
+};
+
+/** Little-endian binary writer backed by a growing ArrayBuffer */
+class Writer {
+  #bytes: Uint8Array<ArrayBuffer> = new Uint8Array(256);
+  #view: DataView = new DataView(this.#bytes.buffer);
+  #pos = 0;
+
+  #ensure(n: number): void {
+    if (this.#pos + n <= this.#bytes.length) return;
+    let size = this.#bytes.length * 2;
+    while (size < this.#pos + n) size *= 2;
+    const bytes = new Uint8Array(size);
+    bytes.set(this.#bytes);
+    this.#bytes = bytes;
+    this.#view = new DataView(bytes.buffer);
+  }
+
+  u8(n: number): void {
+    this.#ensure(1);
+    this.#view.setUint8(this.#pos, n);
+    this.#pos += 1;
+  }
+
+  u16(n: number): void {
+    this.#ensure(2);
+    this.#view.setUint16(this.#pos, n, true);
+    this.#pos += 2;
+  }
+
+  u32(n: number): void {
+    this.#ensure(4);
+    this.#view.setUint32(this.#pos, n, true);
+    this.#pos += 4;
+  }
+
+  f64(n: number): void {
+    this.#ensure(8);
+    this.#view.setFloat64(this.#pos, n, true);
+    this.#pos += 8;
+  }
+
+  u64(n: bigint): void {
+    this.#ensure(8);
+    this.#view.setBigUint64(this.#pos, BigInt.asUintN(64, n), true);
+    this.#pos += 8;
+  }
+
+  str(s: string): void {
+    if (s.length > 255) {
+      throw new RangeError(`String "${s}" is too long to encode`);
+    }
+    this.u8(s.length);
+    for (let i = 0; i < s.length; i++) {
+      const code = s.charCodeAt(i);
+      if (code > 127) {
+        throw new RangeError(`String "${s}" is not ASCII`);
+      }
+      this.u8(code);
+    }
+  }
+
+  text(s: string): void {
+    this.u32(s.length);
+    for (let i = 0; i < s.length; i++) {
+      this.u16(s.charCodeAt(i));
+    }
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.#ensure(bytes.length);
+    this.#bytes.set(bytes, this.#pos);
+    this.#pos += bytes.length;
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    return this.#bytes.slice(0, this.#pos);
+  }
+}
+
+/** Little-endian binary reader */
+class Reader {
+  readonly #bytes: Uint8Array;
+  readonly #view: DataView;
+  #pos = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.#bytes = bytes;
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  #advance(n: number): number {
+    const pos = this.#pos;
+    if (pos + n > this.#bytes.length) {
+      throw new InvalidSnapshotError("Invalid snapshot: unexpected end of data");
+    }
+    this.#pos += n;
+    return pos;
+  }
+
+  u8(): number {
+    return this.#view.getUint8(this.#advance(1));
+  }
+
+  u16(): number {
+    return this.#view.getUint16(this.#advance(2), true);
+  }
+
+  u32(): number {
+    return this.#view.getUint32(this.#advance(4), true);
+  }
+
+  f64(): number {
+    return this.#view.getFloat64(this.#advance(8), true);
+  }
+
+  u64(): bigint {
+    return this.#view.getBigUint64(this.#advance(8), true);
+  }
+
+  str(): string {
+    return String.fromCharCode(...this.bytes(this.u8()));
+  }
+
+  text(): string {
+    const length = this.u32();
+    let s = "";
+    for (let i = 0; i < length; i++) {
+      s += String.fromCharCode(this.u16());
+    }
+    return s;
+  }
+
+  bytes(n: number): Uint8Array {
+    const pos = this.#advance(n);
+    return this.#bytes.subarray(pos, pos + n);
+  }
+}
+
+/** @returns `true` if the named TypedArray type stores bigints */
+const isBigIntType = (type: string): boolean => {
+  const Ctr = getTypedArrayConstructor(type);
+  return Ctr !== undefined && isBigIntTypedArrayConstructor(Ctr);
+};
+
+/** @returns the value, or `null` if it is the encoded null placeholder */
+const decodeNullable = (n: number): number | null => n === NULL_VALUE ? null : n;
+
+/**
+ * Encode a snapshot into a self-describing binary blob
+ * @param snapshot the snapshot to encode
+ * @returns the encoded bytes
+ */
+export function encodeSnapshot(snapshot: Snapshot): Uint8Array<ArrayBuffer> {
+  const { byteLength, maxByteLength, layout, data, sparse, strings } = snapshot;
+  const writer = new Writer();
+
+  // Header
+  writer.u32(MAGIC);
+  writer.u16(SNAPSHOT_VERSION);
+  writer.u16(maxByteLength === null ? 0 : FLAG_RESIZABLE);
+  writer.u32(layout.maxEntitiesPerPartition);
+  writer.u32(byteLength);
+  writer.u32(maxByteLength ?? byteLength);
+  writer.u32(layout.offset);
+  writer.u32(layout.freeList.length);
+  writer.u32(layout.partitions.length);
+
+  // Free list
+  for (const { byteOffset, byteLength } of layout.freeList) {
+    writer.u32(byteOffset);
+    writer.u32(byteLength);
+  }
+
+  // Partition table
+  for (const partition of layout.partitions) {
+    writer.str(partition.name);
+    writer.u8((partition.properties ? 0 : FLAG_TAG) | (partition.layout === "packed" ? FLAG_PACKED : 0));
+    writer.f64(partition.maxOwners ?? NULL_VALUE);
+    writer.f64(partition.maxEntityId ?? NULL_VALUE);
+    writer.u32(partition.version);
+    const alignment = partition.alignment ?? null;
+    writer.u32(typeof alignment === "number" ? alignment : 0);
+    writer.u32(partition.byteOffset);
+    writer.u32(partition.byteLength);
+    writer.u16(partition.properties?.length ?? 0);
+    for (const property of partition.properties ?? []) {
+      writer.str(property.name);
+      writer.str(property.type);
+      if (isBigIntType(property.type)) {
+        writer.u64(BigInt(property.initialValue));
+      } else {
+        writer.f64(Number(property.initialValue));
+      }
+      writer.u32(property.byteOffset);
+      writer.u32(property.length);
+      writer.u32(property.elementsPerEntity);
+      writer.u8(property.bits ?? 0);
+      writer.u32(typeof alignment === "number" ? 0 : alignment?.[property.name] ?? 0);
+    }
+  }
+
+  // Raw bytes
+  writer.bytes(data.subarray(0, layout.offset));
+
+  // Sparse mappings
+  for (const partition of layout.partitions) {
+    if (!partition.properties || partition.maxOwners === null) continue;
+    const entries = sparse.get(partition.name) ?? [];
+    writer.u32(entries.length);
+    for (const [entity, slot] of entries) {
+      writer.f64(entity);
+      writer.u32(slot);
+    }
+  }
+
+  // String table
+  writer.u32(strings.length);
+  for (const [handle, value, refCount] of strings) {
+    writer.u32(handle);
+    writer.u32(refCount);
+    writer.text(value);
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Decode a binary blob produced by `encodeSnapshot()`
+ * @param bytes the encoded bytes
+ * @returns the decoded snapshot
+ * @throws {InvalidSnapshotError} if the bytes are not a valid snapshot
+ */
+export function decodeSnapshot(bytes: Uint8Array | ArrayBuffer): Snapshot {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (data.length < HEADER_SIZE) {
+    throw new InvalidSnapshotError("Invalid snapshot: unexpected end of data");
+  }
+  const reader = new Reader(data);
+
+  // Header
+  if (reader.u32() !== MAGIC) {
+    throw new InvalidSnapshotError("Invalid snapshot: missing PBUF header");
+  }
+  const version = reader.u16();
+  if (version < MIN_SNAPSHOT_VERSION || version > SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotError(`Unsupported snapshot version ${version}`, { version });
+  }
+  const flags = reader.u16();
+  const maxEntitiesPerPartition = reader.u32();
+  const byteLength = reader.u32();
+  const maxByteLength = reader.u32();
+  const offset = reader.u32();
+  const freeListLength = reader.u32();
+  const partitionCount = reader.u32();
+  const resizable = (flags & FLAG_RESIZABLE) !== 0;
+  if (
+    maxEntitiesPerPartition < 8 || byteLength === 0 || offset > byteLength ||
+    (resizable ? maxByteLength < byteLength : byteLength % maxEntitiesPerPartition !== 0)
+  ) {
+    throw new InvalidSnapshotError("Invalid snapshot: corrupt header", { version });
+  }
+
+  // Free list
+  const freeList: ByteRange[] = [];
+  for (let i = 0; i < freeListLength; i++) {
+    freeList.push({ byteOffset: reader.u32(), byteLength: reader.u32() });
+  }
+
+  // Partition table
+  const partitions: PartitionLayout[] = [];
+  for (let i = 0; i < partitionCount; i++) {
+    const name = reader.str();
+    const partitionFlags = reader.u8();
+    const maxOwners = decodeNullable(reader.f64());
+    const maxEntityId = decodeNullable(reader.f64());
+    const partitionVersion = version >= 5 ? reader.u32() : 0;
+    let alignment: PartitionLayout["alignment"] = (version >= 6 ? reader.u32() : 0) || null;
+    const partitionByteOffset = reader.u32();
+    const partitionByteLength = reader.u32();
+    const propertyCount = reader.u16();
+    const properties: PropertyLayout[] = [];
+    for (let j = 0; j < propertyCount; j++) {
+      const propertyName = reader.str();
+      const type = reader.str();
+      const initialValue = type === "BigInt64Array"
+        ? BigInt.asIntN(64, reader.u64())
+        : isBigIntType(type)
+        ? reader.u64()
+        : reader.f64();
+      const byteOffset = reader.u32();
+      const length = reader.u32();
+      const elementsPerEntity = version >= 2 ? reader.u32() : 1;
+      const bits = version >= 3 ? reader.u8() : 0;
+      const propertyAlignment = version >= 6 ? reader.u32() : 0;
+      if (propertyAlignment) {
+        alignment = { ...(alignment as Record<string, number>), [propertyName]: propertyAlignment };
+      }
+      const property: PropertyLayout = {
+        name: propertyName,
+        type,
+        initialValue,
+        byteOffset,
+        length,
+        elementsPerEntity,
+      };
+      if (bits) property.bits = bits;
+      properties.push(property);
+    }
+    partitions.push({
+      name,
+      maxOwners,
+      maxEntityId,
+      version: partitionVersion,
+      alignment,
+      layout: partitionFlags & FLAG_PACKED ? "packed" : "declared",
+      byteOffset: partitionByteOffset,
+      byteLength: partitionByteLength,
+      properties: partitionFlags & FLAG_TAG ? null : properties,
+    });
+  }
+
+  // Raw bytes
+  const contents = reader.bytes(offset);
+
+  // Sparse mappings
+  const sparse = new Map<string, [number, number][]>();
+  for (const partition of partitions) {
+    if (!partition.properties || partition.maxOwners === null) continue;
+    const count = reader.u32();
+    const entries: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      entries.push([reader.f64(), reader.u32()]);
+    }
+    sparse.set(partition.name, entries);
+  }
+
+  // String table
+  const strings: [number, string, number][] = [];
+  const stringCount = version >= 4 ? reader.u32() : 0;
+  for (let i = 0; i < stringCount; i++) {
+    const handle = reader.u32();
+    const refCount = reader.u32();
+    strings.push([handle, reader.text(), refCount]);
+  }
+
+  return {
+    byteLength,
+    maxByteLength: resizable ? maxByteLength : null,
+    layout: { maxEntitiesPerPartition, offset, freeList, partitions },
+    data: contents,
+    sparse,
+    strings,
+  };
+}
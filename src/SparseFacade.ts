@@ -6,16 +6,17 @@
  */
 
 import { BitPool } from "@phughesmcr/bitpool";
-import type { TypedArray } from "./utils.ts";
+import { EntityOutOfBoundsError, InvalidPartitionSpecError, SparseCapacityError } from "./Errors.ts";
+import { getZeroValue, type TypedArray, type TypedArrayValue } from "./utils.ts";
 
 /** Sparse entity-id access layered over dense typed-array storage. */
 export type SparseEntityStorage<T extends TypedArray> = {
   /** The dense backing array used for cache-friendly storage. */
   readonly dense: T;
   /** Read a value by sparse entity ID. */
-  getEntity(entity: number): number | undefined;
+  getEntity(entity: number): TypedArrayValue<T> | undefined;
   /** Set a value by sparse entity ID. */
-  setEntity(entity: number, value: number): void;
+  setEntity(entity: number, value: TypedArrayValue<T>): void;
   /** Remove an entity from the sparse mapping. */
   deleteEntity(entity: number): boolean;
   /** Clear all sparse mappings and zero the dense backing storage. */
@@ -31,8 +32,34 @@ export type SparseFacade<T extends TypedArray> = T & SparseEntityStorage<T>;
 /** Sentinel value indicating an entity is not present in the sparse mapping */
 const NOT_PRESENT = -1;
 
+/** Estimated bytes per entry of a dynamic-mode `Map` (key, value and hash chain slots) */
+const MAP_ENTRY_BYTES = 24;
+
 type SparseIndexOptions = {
   maxEntityId?: number;
+  /** The partition the index belongs to, reported by `SparseCapacityError` */
+  name?: string;
+};
+
+/** How a dense array registered with a `SparseIndex` is cleared and copied */
+export type DenseArrayOptions = {
+  /** The number of elements in each slot, for vector properties and packed bitfield words [default = 1] */
+  stride?: number;
+  /** The `stride` values a cleared slot is reset to [default = zeros] */
+  initial?: ArrayLike<number> | ArrayLike<bigint>;
+  /** Called with each non-zero value before it is cleared (e.g., to release string handles) */
+  release?: (value: number) => void;
+  /** Called with each non-zero value copied into another slot by `copy()` (e.g., to retain string handles) */
+  retain?: (value: number) => void;
+};
+
+/** A registered dense array's slot size and hooks */
+type DenseArrayEntry = {
+  stride: number;
+  /** The slot's initial values, or `undefined` for zeros */
+  initial?: TypedArray;
+  release?: (value: number) => void;
+  retain?: (value: number) => void;
 };
 
 /**
@@ -41,23 +68,35 @@ type SparseIndexOptions = {
  */
 export class SparseIndex {
   readonly #maxEntityId?: number;
+  readonly #name?: string;
   readonly #available: BitPool;
-  readonly #denseArrays: Set<TypedArray>;
+  /** Dense arrays sharing this mapping, with their slot sizes, initial values and hooks */
+  readonly #denseArrays: Map<TypedArray, DenseArrayEntry>;
   readonly #sparseMap?: Map<number, number>;
   readonly #sparseArray?: Int32Array;
   readonly #denseToEntity?: Int32Array;
+  #size = 0;
+  #highWater = 0;
+  #version = 0;
 
   constructor(denseLength: number, options: SparseIndexOptions = {}) {
     if (denseLength === 0) {
-      throw new Error("Cannot create SparseIndex with zero-length array");
+      throw new SparseCapacityError(
+        { partitionName: options.name, capacity: denseLength },
+        "Cannot create SparseIndex with zero-length array",
+      );
     } else if (denseLength > 2 ** 31 - 1) {
-      throw new Error("Array length exceeds maximum safe BitPool size");
+      throw new SparseCapacityError(
+        { partitionName: options.name, capacity: denseLength },
+        "Array length exceeds maximum safe BitPool size",
+      );
     }
 
-    const { maxEntityId } = options;
+    const { maxEntityId, name } = options;
+    this.#name = name;
     if (maxEntityId !== undefined) {
       if (!Number.isSafeInteger(maxEntityId) || maxEntityId < 0) {
-        throw new Error("maxEntityId must be a non-negative safe integer");
+        throw new InvalidPartitionSpecError("maxEntityId must be a non-negative safe integer", { partitionName: name });
       }
       this.#maxEntityId = maxEntityId;
       this.#sparseArray = new Int32Array(maxEntityId + 1);
@@ -69,16 +108,114 @@ export class SparseIndex {
     }
 
     this.#available = new BitPool(denseLength);
-    this.#denseArrays = new Set<TypedArray>();
+    this.#denseArrays = new Map<TypedArray, DenseArrayEntry>();
+  }
+
+  /** The number of entities in the mapping */
+  get size(): number {
+    return this.#size;
+  }
+
+  /** The number of dense slots (the partition's `maxOwners`) */
+  get capacity(): number {
+    return this.#available.size;
+  }
+
+  /** The most entities the mapping has held at once */
+  get highWater(): number {
+    return this.#highWater;
+  }
+
+  /**
+   * The bytes held by the entity-to-slot mapping: the sparse and dense `Int32Array`s,
+   * or in dynamic mode an estimate of the `Map`'s entries
+   */
+  get indexByteLength(): number {
+    if (this.#sparseArray) return this.#sparseArray.byteLength + (this.#denseToEntity?.byteLength ?? 0);
+    return (this.#sparseMap?.size ?? 0) * MAP_ENTRY_BYTES;
+  }
+
+  /** Incremented whenever an entity is added to or removed from the mapping */
+  get version(): number {
+    return this.#version;
   }
 
-  registerDenseArray(dense: TypedArray): void {
-    this.#denseArrays.add(dense);
+  /**
+   * Register a dense array whose slots are reset when entities are removed.
+   * Registering the same array again replaces its options.
+   * @param dense the dense array
+   * @param options the slot size, initial values and hooks
+   */
+  registerDenseArray(dense: TypedArray, options: DenseArrayOptions = {}): void {
+    const { stride = 1, initial, release, retain } = options;
+    let values: TypedArray | undefined;
+    if (initial && Array.prototype.some.call(initial, (value) => value !== 0 && value !== 0n)) {
+      values = new (dense.constructor as new (length: number) => TypedArray)(stride);
+      values.set(initial as never);
+    }
+    this.#denseArrays.set(dense, { stride, initial: values, release, retain });
+  }
+
+  /** Reset the slots in `[start, end)` of a dense array to its initial values, releasing what they held */
+  #resetSlots(dense: TypedArray, entry: DenseArrayEntry, start: number, end: number): void {
+    this.#notify(entry.release, dense, start * entry.stride, end * entry.stride);
+    if (!entry.initial) {
+      dense.fill(getZeroValue(dense) as never, start * entry.stride, end * entry.stride);
+      return;
+    }
+    for (let slot = start; slot < end; slot++) dense.set(entry.initial as never, slot * entry.stride);
+  }
+
+  /** Pass the non-zero values in `[start, end)` of a dense array to a callback */
+  #notify(callback: ((value: number) => void) | undefined, dense: TypedArray, start: number, end: number): void {
+    if (!callback) return;
+    for (let i = start; i < end; i++) {
+      const value = dense[i] as number;
+      if (value) callback(value);
+    }
+  }
+
+  /**
+   * Check an entity ID can be added to the mapping
+   * @throws {TypeError} if entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} if entity is negative or above `maxEntityId`
+   */
+  #validate(entity: number): void {
+    if (!Number.isSafeInteger(entity)) {
+      throw new TypeError(`Entity must be a safe integer, got ${entity}`);
+    }
+    if (entity < 0) {
+      throw new EntityOutOfBoundsError(`Entity index must be non-negative, got ${entity}`, {
+        entity,
+        partitionName: this.#name,
+      });
+    }
+    if (this.#maxEntityId !== undefined && entity > this.#maxEntityId) {
+      throw new EntityOutOfBoundsError(`Entity ${entity} out of bounds [0, ${this.#maxEntityId}]`, {
+        entity,
+        max: this.#maxEntityId,
+        partitionName: this.#name,
+      });
+    }
+  }
+
+  /** Point an entity at a dense slot, or remove it from the mapping, without touching dense values */
+  #assign(entity: number, idx: number | undefined): void {
+    if (this.#sparseArray) {
+      this.#sparseArray[entity] = idx ?? NOT_PRESENT;
+      if (idx !== undefined && this.#denseToEntity) {
+        this.#denseToEntity[idx] = entity;
+      }
+    } else if (idx === undefined) {
+      this.#sparseMap?.delete(entity);
+    } else {
+      this.#sparseMap?.set(entity, idx);
+    }
   }
 
   #clearDenseSlot(index: number): void {
-    for (const dense of this.#denseArrays) {
-      dense[index] = 0;
+    for (const [dense, entry] of this.#denseArrays) {
+      this.#resetSlots(dense, entry, index, index + 1);
     }
   }
 
@@ -96,27 +233,22 @@ export class SparseIndex {
   }
 
   ensure(entity: number): number {
-    if (!Number.isSafeInteger(entity)) {
-      throw new TypeError(`Entity must be a safe integer, got ${entity}`);
-    }
-    if (entity < 0) {
-      throw new RangeError(`Entity index must be non-negative, got ${entity}`);
-    }
-    if (this.#maxEntityId !== undefined && entity > this.#maxEntityId) {
-      throw new RangeError(`Entity ${entity} out of bounds [0, ${this.#maxEntityId}]`);
-    }
+    this.#validate(entity);
 
     if (this.#sparseArray) {
       let idx = this.#sparseArray[entity] as number;
       if (idx === NOT_PRESENT) {
         idx = this.#available.acquire();
         if (idx === NOT_PRESENT) {
-          throw new RangeError(`Dense storage exhausted (capacity: ${this.#available.size})`);
+          throw new SparseCapacityError({ partitionName: this.#name, capacity: this.#available.size, entity });
         }
         this.#sparseArray[entity] = idx;
         if (this.#denseToEntity) {
           this.#denseToEntity[idx] = entity;
         }
+        this.#size++;
+        this.#highWater = Math.max(this.#highWater, this.#size);
+        this.#version++;
       }
       return idx;
     }
@@ -125,9 +257,12 @@ export class SparseIndex {
     if (existing !== undefined) return existing;
     const idx = this.#available.acquire();
     if (idx === NOT_PRESENT) {
-      throw new RangeError(`Dense storage exhausted (capacity: ${this.#available.size})`);
+      throw new SparseCapacityError({ partitionName: this.#name, capacity: this.#available.size, entity });
     }
     this.#sparseMap?.set(entity, idx);
+    this.#size++;
+    this.#highWater = Math.max(this.#highWater, this.#size);
+    this.#version++;
     return idx;
   }
 
@@ -144,6 +279,8 @@ export class SparseIndex {
       }
       this.#clearDenseSlot(idx);
       this.#available.release(idx);
+      this.#size--;
+      this.#version++;
       return true;
     }
 
@@ -152,9 +289,98 @@ export class SparseIndex {
     this.#sparseMap?.delete(entity);
     this.#clearDenseSlot(idx);
     this.#available.release(idx);
+    this.#size--;
+    this.#version++;
+    return true;
+  }
+
+  /**
+   * Copy an entity's dense values to another entity, adding the target to the mapping.
+   * If the source is not in the mapping, the target is removed instead.
+   * @param from the entity to copy
+   * @param to the entity to overwrite
+   * @throws {TypeError} if an entity is not a safe integer
+   * @throws {RangeError} if an entity is out of bounds or the dense storage is full
+   */
+  copy(from: number, to: number): void {
+    this.#validate(from);
+    this.#validate(to);
+    const source = this.get(from);
+    if (source === undefined) {
+      this.delete(to);
+      return;
+    }
+    if (from === to) return;
+    const target = this.ensure(to);
+    for (const [dense, { stride, release, retain }] of this.#denseArrays) {
+      const start = target * stride;
+      this.#notify(release, dense, start, start + stride);
+      dense.copyWithin(start, source * stride, (source + 1) * stride);
+      this.#notify(retain, dense, start, start + stride);
+    }
+  }
+
+  /**
+   * Reset an entity's dense values to their initial values, keeping it in the mapping
+   * @param entity the entity to reset
+   * @returns `true` if the entity is in the mapping
+   */
+  reset(entity: number): boolean {
+    const idx = this.get(entity);
+    if (idx === undefined) return false;
+    this.#clearDenseSlot(idx);
     return true;
   }
 
+  /**
+   * Exchange two entities' dense slots, so each takes the other's values (and mapping membership)
+   * @param a the first entity
+   * @param b the second entity
+   * @throws {TypeError} if an entity is not a safe integer
+   * @throws {RangeError} if an entity is out of bounds
+   */
+  swap(a: number, b: number): void {
+    this.#validate(a);
+    this.#validate(b);
+    const slotA = this.get(a);
+    const slotB = this.get(b);
+    if (a === b || (slotA === undefined && slotB === undefined)) return;
+    this.#assign(a, slotB);
+    this.#assign(b, slotA);
+    this.#version++;
+  }
+
+  /**
+   * Move an entity's dense slot to another entity, removing the source from the mapping.
+   * The target's previous values are cleared; if the source is not in the mapping, the target is removed.
+   * @param from the entity to move
+   * @param to the entity to overwrite
+   * @throws {TypeError} if an entity is not a safe integer
+   * @throws {RangeError} if an entity is out of bounds
+   */
+  move(from: number, to: number): void {
+    this.#validate(from);
+    this.#validate(to);
+    if (from === to) return;
+    this.delete(to);
+    this.swap(from, to);
+  }
+
+  /**
+   * Call a function for every entity in the mapping
+   * @param callback called with each entity ID and its dense index
+   */
+  forEach(callback: (entity: number, index: number) => void): void {
+    if (this.#sparseArray) {
+      for (let entity = 0; entity < this.#sparseArray.length; entity++) {
+        const idx = this.#sparseArray[entity] as number;
+        if (idx !== NOT_PRESENT) callback(entity, idx);
+      }
+      return;
+    }
+    this.#sparseMap?.forEach((idx, entity) => callback(entity, idx));
+  }
+
   clear(): void {
     if (this.#sparseArray) {
       this.#sparseArray.fill(NOT_PRESENT);
@@ -162,8 +388,10 @@ export class SparseIndex {
     }
     this.#sparseMap?.clear();
     this.#available.clear();
-    for (const dense of this.#denseArrays) {
-      dense.fill(0);
+    this.#size = 0;
+    this.#version++;
+    for (const [dense, entry] of this.#denseArrays) {
+      this.#resetSlots(dense, entry, 0, dense.length / entry.stride);
     }
   }
 }
@@ -239,14 +467,14 @@ export function sparseFacade<T extends TypedArray>(
  */
 function sparseFacadeWithIndex<T extends TypedArray>(dense: T, index: SparseIndex): SparseFacade<T> {
   /** @returns the entity's value from the dense array or undefined if non-existent */
-  const get = (entity: number): number | undefined => {
+  const get = (entity: number): TypedArrayValue<T> | undefined => {
     const idx = index.get(entity);
-    return idx === undefined ? undefined : dense[idx];
+    return idx === undefined ? undefined : dense[idx] as TypedArrayValue<T>;
   };
 
   /** @throws {TypeError} if entity is not a valid integer */
   /** @throws {RangeError} if entity is out of bounds or dense array is full */
-  const set = (entity: number, value: number): true => {
+  const set = (entity: number, value: TypedArrayValue<T>): true => {
     const idx = index.ensure(entity);
     dense[idx] = value;
     return true;
@@ -268,7 +496,7 @@ function sparseFacadeWithIndex<T extends TypedArray>(dense: T, index: SparseInde
       if (key === "dense") return target;
       if (key === "getEntity") return get;
       if (key === "setEntity") {
-        return (entity: number, value: number): void => {
+        return (entity: number, value: TypedArrayValue<T>): void => {
           set(entity, value);
         };
       }
@@ -290,7 +518,7 @@ function sparseFacadeWithIndex<T extends TypedArray>(dense: T, index: SparseInde
       }
       return value;
     },
-    set: (_target: T, key: string | symbol, value: number) => {
+    set: (_target: T, key: string | symbol, value: TypedArrayValue<T>) => {
       if (typeof key !== "string") {
         throw new TypeError(`Property key must be a string, got ${typeof key}`);
       }
@@ -299,7 +527,7 @@ function sparseFacadeWithIndex<T extends TypedArray>(dense: T, index: SparseInde
         throw new TypeError(`Property key must be an integer, got "${key}"`);
       }
       if (num < 0) {
-        throw new RangeError(`Entity index must be non-negative, got ${num}`);
+        throw new EntityOutOfBoundsError(`Entity index must be non-negative, got ${num}`, { entity: num });
       }
       return set(num, value);
     },
@@ -0,0 +1,180 @@
+/**
+ * @module      StringTable
+ * @description A reference-counted intern table mapping strings to Uint32 handles.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { StringTableFullError } from "./Errors.ts";
+
+/** The handle of the empty string, which is never stored in the table */
+const EMPTY_HANDLE = 0;
+
+/** The largest handle a Uint32 can hold */
+const MAX_HANDLE = 0xffffffff;
+
+/**
+ * An intern table for string schema properties.
+ *
+ * Each distinct string is stored once and identified by a Uint32 handle.
+ * Handles are reference counted: every `intern()` must be balanced by a `release()`,
+ * and a string is dropped from the table (and its handle reused) when its count reaches zero.
+ * The empty string always has handle `0` and is not counted.
+ *
+ * @example ```
+ * const table = new StringTable();
+ * const handle = table.intern("player");
+ * table.get(handle); // "player"
+ * table.release(handle);
+ * table.get(handle); // undefined
+ * ```
+ */
+export class StringTable {
+  /** Strings by handle */
+  readonly #strings: string[] = [""];
+
+  /** Reference counts by handle */
+  readonly #refCounts: number[] = [0];
+
+  /** Handles by string */
+  readonly #handles = new Map<string, number>();
+
+  /** Released handles available for reuse */
+  readonly #free: number[] = [];
+
+  /** The number of distinct interned strings, excluding the empty string */
+  get size(): number {
+    return this.#handles.size;
+  }
+
+  /**
+   * Intern a string, adding a reference to it
+   * @param value the string to intern
+   * @returns the string's handle (`0` for the empty string)
+   * @throws {TypeError} if value is not a string
+   * @throws {StringTableFullError} if the table has no handles left
+   */
+  intern(value: string): number {
+    if (typeof value !== "string") {
+      throw new TypeError(`Expected a string, got ${typeof value}`);
+    }
+    if (value === "") return EMPTY_HANDLE;
+    let handle = this.#handles.get(value);
+    if (handle === undefined) {
+      handle = this.#free.pop() ?? this.#strings.length;
+      if (handle > MAX_HANDLE) {
+        throw new StringTableFullError(MAX_HANDLE);
+      }
+      this.#strings[handle] = value;
+      this.#refCounts[handle] = 0;
+      this.#handles.set(value, handle);
+    }
+    this.#refCounts[handle]!++;
+    return handle;
+  }
+
+  /**
+   * Add a reference to an already interned string
+   * @param handle the string's handle
+   * @returns `true` if the handle was live
+   */
+  retain(handle: number): boolean {
+    if (handle === EMPTY_HANDLE) return true;
+    if (!this.#refCounts[handle]) return false;
+    this.#refCounts[handle]!++;
+    return true;
+  }
+
+  /**
+   * Remove a reference to a string, dropping it from the table when none remain
+   * @param handle the string's handle
+   * @returns `true` if the handle was live
+   */
+  release(handle: number): boolean {
+    if (handle === EMPTY_HANDLE) return true;
+    const refCount = this.#refCounts[handle];
+    if (!refCount) return false;
+    if (refCount > 1) {
+      this.#refCounts[handle] = refCount - 1;
+      return true;
+    }
+    this.#handles.delete(this.#strings[handle]!);
+    this.#strings[handle] = "";
+    this.#refCounts[handle] = 0;
+    this.#free.push(handle);
+    return true;
+  }
+
+  /**
+   * Get the string a handle refers to
+   * @param handle the string's handle
+   * @returns the string, or `undefined` if the handle is not live
+   */
+  get(handle: number): string | undefined {
+    if (handle === EMPTY_HANDLE) return "";
+    return this.#refCounts[handle] ? this.#strings[handle] : undefined;
+  }
+
+  /**
+   * Get the handle of an interned string without adding a reference
+   * @param value the string to look up
+   * @returns the string's handle, or `undefined` if it is not interned
+   */
+  handleOf(value: string): number | undefined {
+    if (value === "") return EMPTY_HANDLE;
+    return this.#handles.get(value);
+  }
+
+  /**
+   * Get the number of references to a handle
+   * @param handle the string's handle
+   * @returns the reference count (`0` for the empty string and released handles)
+   */
+  refCount(handle: number): number {
+    return this.#refCounts[handle] ?? 0;
+  }
+
+  /** Drop every string and reset handle allocation */
+  clear(): void {
+    this.#strings.length = 1;
+    this.#refCounts.length = 1;
+    this.#handles.clear();
+    this.#free.length = 0;
+  }
+
+  /** Iterate over the live `[handle, string, refCount]` entries in handle order */
+  *entries(): IterableIterator<[number, string, number]> {
+    for (let handle = 1; handle < this.#strings.length; handle++) {
+      const refCount = this.#refCounts[handle]!;
+      if (refCount) yield [handle, this.#strings[handle]!, refCount];
+    }
+  }
+
+  /**
+   * Replace the table's contents with entries produced by `entries()`
+   * @param entries the `[handle, string, refCount]` entries
+   * @throws {TypeError} if an entry is malformed or repeats a handle or string
+   */
+  load(entries: Iterable<[number, string, number]>): void {
+    this.clear();
+    for (const [handle, value, refCount] of entries) {
+      if (
+        !Number.isInteger(handle) || handle <= EMPTY_HANDLE || handle > MAX_HANDLE ||
+        typeof value !== "string" || value === "" || !Number.isInteger(refCount) || refCount <= 0 ||
+        this.#refCounts[handle] || this.#handles.has(value)
+      ) {
+        throw new TypeError(`Invalid string table entry for handle ${handle}`);
+      }
+      for (let i = this.#strings.length; i < handle; i++) {
+        this.#strings[i] = "";
+        this.#refCounts[i] = 0;
+      }
+      this.#strings[handle] = value;
+      this.#refCounts[handle] = refCount;
+      this.#handles.set(value, handle);
+    }
+    for (let handle = this.#strings.length - 1; handle > EMPTY_HANDLE; handle--) {
+      if (!this.#refCounts[handle]) this.#free.push(handle);
+    }
+  }
+}
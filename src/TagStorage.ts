@@ -0,0 +1,160 @@
+/**
+ * @module      TagStorage
+ * @description A packed per-entity bitset recording which entities carry a tag.
+ * @copyright   2024 the PartitionedBuffer authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { EntityOutOfBoundsError } from "./Errors.ts";
+
+/** Number of bits in each bitset word */
+const BITS_PER_WORD = 32;
+
+/**
+ * Count the set bits in a 32-bit word
+ * @param n the word
+ * @returns the number of set bits
+ */
+function popcount(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Get the number of bytes a bitset for `capacity` entities occupies
+ * @param capacity the number of entities the bitset can hold
+ * @returns the size of the bitset in bytes
+ */
+export function getTagByteLength(capacity: number): number {
+  return Math.ceil(capacity / BITS_PER_WORD) * Uint32Array.BYTES_PER_ELEMENT;
+}
+
+/**
+ * Storage for a tag partition: one bit per entity, packed into Uint32 words inside the buffer.
+ *
+ * @example ```
+ * const isAlive = buffer.addPartition({ name: "isAlive" });
+ * isAlive.add(4);
+ * isAlive.has(4); // true
+ * isAlive.count(); // 1
+ * [...isAlive]; // [4]
+ * ```
+ */
+export class TagStorage {
+  /** The bitset words */
+  readonly bits: Uint32Array;
+
+  /** The number of entities the bitset can hold (entity IDs are in `[0, capacity)`) */
+  readonly capacity: number;
+
+  /** The byte offset of the tag storage, including any alignment padding before the bitset */
+  readonly byteOffset: number;
+
+  /** The byte length of the tag storage, including any alignment padding before the bitset */
+  readonly byteLength: number;
+
+  #version = 0;
+
+  /**
+   * Create a new tag storage over a bitset
+   * @param bits the bitset words, at least `capacity` bits long
+   * @param capacity the number of entities the bitset can hold
+   * @param byteOffset the start of the storage if it includes padding before `bits`
+   */
+  constructor(bits: Uint32Array, capacity: number, byteOffset: number = bits.byteOffset) {
+    this.bits = bits;
+    this.capacity = capacity;
+    this.byteOffset = byteOffset;
+    this.byteLength = bits.byteOffset + bits.byteLength - byteOffset;
+  }
+
+  /** Incremented whenever an entity is tagged or untagged through this handle */
+  get version(): number {
+    return this.#version;
+  }
+
+  /**
+   * @throws {TypeError} if entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} if entity is outside `[0, capacity)`
+   */
+  #validate(entity: number): void {
+    if (!Number.isSafeInteger(entity)) {
+      throw new TypeError(`Entity must be a safe integer, got ${entity}`);
+    }
+    if (entity < 0 || entity >= this.capacity) {
+      throw new EntityOutOfBoundsError(`Entity ${entity} out of bounds [0, ${this.capacity - 1}]`, {
+        entity,
+        max: this.capacity - 1,
+      });
+    }
+  }
+
+  /**
+   * Tag an entity
+   * @param entity the entity ID
+   * @returns `true` if the entity was not already tagged
+   * @throws {TypeError} if entity is not a safe integer
+   * @throws {EntityOutOfBoundsError} if entity is outside `[0, capacity)`
+   */
+  add(entity: number): boolean {
+    this.#validate(entity);
+    const word = entity >>> 5;
+    const mask = 1 << (entity & 31);
+    const value = this.bits[word]!;
+    if (value & mask) return false;
+    this.bits[word] = value | mask;
+    this.#version++;
+    return true;
+  }
+
+  /**
+   * Untag an entity
+   * @param entity the entity ID
+   * @returns `true` if the entity was tagged
+   */
+  remove(entity: number): boolean {
+    if (!this.has(entity)) return false;
+    const word = entity >>> 5;
+    this.bits[word] = this.bits[word]! & ~(1 << (entity & 31));
+    this.#version++;
+    return true;
+  }
+
+  /**
+   * Check if an entity is tagged
+   * @param entity the entity ID
+   * @returns `true` if the entity is tagged, `false` otherwise (including invalid IDs)
+   */
+  has(entity: number): boolean {
+    if (!Number.isSafeInteger(entity) || entity < 0 || entity >= this.capacity) return false;
+    return (this.bits[entity >>> 5]! & (1 << (entity & 31))) !== 0;
+  }
+
+  /** @returns the number of tagged entities */
+  count(): number {
+    let total = 0;
+    for (let i = 0; i < this.bits.length; i++) {
+      total += popcount(this.bits[i]!);
+    }
+    return total;
+  }
+
+  /** Untag every entity */
+  clear(): void {
+    this.bits.fill(0);
+    this.#version++;
+  }
+
+  /** Iterate over the tagged entities in ascending order */
+  *[Symbol.iterator](): IterableIterator<number> {
+    for (let i = 0; i < this.bits.length; i++) {
+      let word = this.bits[i]!;
+      while (word !== 0) {
+        const lowest = word & -word;
+        yield i * BITS_PER_WORD + 31 - Math.clz32(lowest);
+        word ^= lowest;
+      }
+    }
+  }
+}
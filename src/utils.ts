@@ -18,8 +18,20 @@ export type TypedArray =
   | Uint16Array
   | Int32Array
   | Uint32Array
+  | Float16Array
   | Float32Array
-  | Float64Array;
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/** The typed arrays whose elements are bigints */
+export type BigIntTypedArray = BigInt64Array | BigUint64Array;
+
+/** The typed arrays whose elements are numbers */
+export type NumberTypedArray = Exclude<TypedArray, BigIntTypedArray>;
+
+/** The element type of a typed array: `bigint` for 64-bit integer arrays, `number` otherwise */
+export type TypedArrayValue<T extends TypedArray = TypedArray> = T extends BigIntTypedArray ? bigint : number;
 
 /** All the various kinds of typed array constructors */
 export type TypedArrayConstructor =
@@ -30,8 +42,14 @@ export type TypedArrayConstructor =
   | Uint16ArrayConstructor
   | Int32ArrayConstructor
   | Uint32ArrayConstructor
+  | Float16ArrayConstructor
   | Float32ArrayConstructor
-  | Float64ArrayConstructor;
+  | Float64ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
+
+/** The typed array constructors whose elements are bigints */
+export type BigIntTypedArrayConstructor = BigInt64ArrayConstructor | BigUint64ArrayConstructor;
 
 /** An array of strings that cannot be used for component or schema property names */
 export const FORBIDDEN_NAMES: Set<string> = new Set([
@@ -135,6 +153,69 @@ export const isTypedArrayConstructor = <T extends TypedArrayConstructor>(
   return (typeof object === "function" && hasOwnProperty(object, "BYTES_PER_ELEMENT"));
 };
 
+/**
+ * Test if a typed array constructor creates bigint arrays (i.e., `BigInt64Array` or `BigUint64Array`)
+ * @param constructor the typed array constructor
+ * @returns `true` if the constructor's elements are bigints
+ */
+export const isBigIntTypedArrayConstructor = (
+  constructor: TypedArrayConstructor,
+): constructor is BigIntTypedArrayConstructor => {
+  return constructor === BigInt64Array || constructor === BigUint64Array;
+};
+
+/**
+ * Test if a typed array holds bigints (i.e., is a `BigInt64Array` or `BigUint64Array`)
+ * @param array the typed array
+ * @returns `true` if the array's elements are bigints
+ */
+export const isBigIntTypedArray = (array: TypedArray): array is BigIntTypedArray => {
+  return array instanceof BigInt64Array || array instanceof BigUint64Array;
+};
+
+/**
+ * Get the zero value of a typed array's elements
+ * @param array the typed array
+ * @returns `0n` for bigint arrays, `0` otherwise
+ */
+export const getZeroValue = <T extends TypedArray>(array: T): TypedArrayValue<T> => {
+  return (isBigIntTypedArray(array) ? 0n : 0) as TypedArrayValue<T>;
+};
+
+/**
+ * Test if the runtime provides `Float16Array`
+ * @returns `true` if `Float16Array` is available
+ */
+export const isFloat16ArraySupported = (): boolean => typeof globalThis.Float16Array === "function";
+
+/** The largest finite Float16 value */
+const FLOAT16_MAX = 65504;
+
+/** The TypedArray constructors supported in schemas, by constructor name (`Float16Array` is feature-detected) */
+const TYPED_ARRAY_CONSTRUCTORS: Record<string, TypedArrayConstructor> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+/**
+ * Get a supported TypedArray constructor by its name (e.g., `"Float32Array"`)
+ * @param name the constructor name
+ * @returns the typed array constructor, or `undefined` if the name is not supported
+ */
+export const getTypedArrayConstructor = (name: string): TypedArrayConstructor | undefined => {
+  if (name === "Float16Array") return isFloat16ArraySupported() ? globalThis.Float16Array : undefined;
+  return hasOwnProperty(TYPED_ARRAY_CONSTRUCTORS, name) ? TYPED_ARRAY_CONSTRUCTORS[name] : undefined;
+};
+
 /**
  * Test if a value is valid for a given TypedArrayConstructor's min/max values
  * @param constructor the typed array constructor
@@ -143,9 +224,20 @@ export const isTypedArrayConstructor = <T extends TypedArrayConstructor>(
  */
 export const isValidTypedArrayValue = (
   constructor: TypedArrayConstructor,
-  value: number,
+  value: number | bigint,
 ): boolean => {
-  if (!constructor || isNaN(value)) return false;
+  if (!constructor) return false;
+  if (typeof value === "bigint") {
+    switch (constructor.name) {
+      case "BigInt64Array":
+        return value === BigInt.asIntN(64, value);
+      case "BigUint64Array":
+        return value === BigInt.asUintN(64, value);
+      default:
+        return false;
+    }
+  }
+  if (typeof value !== "number" || isNaN(value)) return false;
   switch (constructor.name) {
     case "Int8Array":
       return Number.isSafeInteger(value) && isNumberBetween(value, -128, 127);
@@ -160,16 +252,41 @@ export const isValidTypedArrayValue = (
       return Number.isSafeInteger(value) && isNumberBetween(value, -2147483648, 2147483647);
     case "Uint32Array":
       return Number.isSafeInteger(value) && isNumberBetween(value, 0, 4294967295);
+    case "Float16Array":
+      return isFinite(value) && Math.abs(value) <= FLOAT16_MAX;
     case "Float32Array":
       // Float32 max is approximately 3.4028234663852886e+38
       return isFinite(value) && Math.abs(value) <= 3.4028234e38;
     case "Float64Array":
       return isFinite(value);
+    case "BigInt64Array":
+    case "BigUint64Array":
+      // bigint arrays only accept bigint values
+      return false;
     default:
       return false;
   }
 };
 
+/** The FNV-1a 64-bit offset basis */
+const FNV_OFFSET_BASIS = 0xcbf29ce484222325n;
+
+/** The FNV-1a 64-bit prime */
+const FNV_PRIME = 0x100000001b3n;
+
+/**
+ * Hash a string with 64-bit FNV-1a over its UTF-16 code units
+ * @param str the string to hash
+ * @returns the hash as 16 lowercase hex digits
+ */
+export const hashString = (str: string): string => {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < str.length; i++) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(str.charCodeAt(i))) * FNV_PRIME);
+  }
+  return hash.toString(16).padStart(16, "0");
+};
+
 /**
  * Dispose of a SparseFacade and clear its sparse mappings.
  *
@@ -223,7 +340,7 @@ export function zeroArray<T extends TypedArray>(array: T): T {
     // deno-lint-ignore no-explicit-any
     delete (array as any)[-1]; // Dispose SparseFacade (which zeros) or no-op for regular arrays
     // If array.fill works without error, use it (handles both regular arrays and post-disposal proxies)
-    array.fill(0);
+    array.fill(getZeroValue(array) as never);
   } catch (error) {
     // If fill() fails (shouldn't happen with our fix), the disposal already zeroed the underlying array
     if (!(error instanceof TypeError && error.message.includes("not a typed array"))) {
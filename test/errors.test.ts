@@ -0,0 +1,250 @@
+// deno-lint-ignore-file no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertInstanceOf, assertThrows } from "jsr:@std/assert@^1.0.9";
+import {
+  DuplicateMigrationError,
+  DuplicatePartitionError,
+  EntityOutOfBoundsError,
+  InvalidBufferOptionsError,
+  InvalidPartitionSpecError,
+  InvalidSchemaError,
+  MigrationDowngradeError,
+  PartitionNotFoundError,
+  PartitionOverflowError,
+  SparseCapacityError,
+  StringTableFullError,
+  UnsupportedSchemaError,
+  ValueRangeError,
+} from "../src/Errors.ts";
+import { MigrationRegistry } from "../src/Migration.ts";
+import { Partition, type PartitionSpec } from "../src/Partition.ts";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { getEntitySize, type Schema, string, uint } from "../src/Schema.ts";
+import { schemaToJSON } from "../src/SchemaParser.ts";
+import { SharedPartitionedBuffer } from "../src/SharedPartitionedBuffer.ts";
+import { SparseIndex } from "../src/SparseFacade.ts";
+
+type Position = { x: number; y: number };
+
+Deno.test("Errors - partition overflow", () => {
+  const buffer = new PartitionedBuffer(256, 16);
+  const spec = { name: "big", schema: { a: Float64Array, b: Float64Array, c: Float64Array } };
+  const error = assertThrows(
+    () => buffer.addPartition<{ a: number; b: number; c: number }>(spec),
+    PartitionOverflowError,
+    "Not enough free space",
+  ) as PartitionOverflowError;
+  assertInstanceOf(error, RangeError);
+  assertEquals(error.name, "PartitionOverflowError");
+  assertEquals(error.code, "PARTITION_OVERFLOW");
+  assertEquals(error.partitionName, "big");
+  assertEquals([error.required, error.available], [384, 256]);
+});
+
+Deno.test("Errors - duplicate and missing partitions", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const spec = { name: "position", schema: { x: Float32Array, y: Float32Array } };
+  buffer.addPartition<Position>(spec);
+
+  const duplicate = assertThrows(
+    () => buffer.addPartition<Position>(spec),
+    DuplicatePartitionError,
+  ) as DuplicatePartitionError;
+  assertEquals(duplicate.message, "Partition name position already exists");
+  assertEquals([duplicate.code, duplicate.partitionName], ["DUPLICATE_PARTITION", "position"]);
+
+  const missing = assertThrows(
+    () => buffer.resetEntity(0, ["velocity"]),
+    PartitionNotFoundError,
+  ) as PartitionNotFoundError;
+  assertEquals(missing.message, "Partition velocity does not exist");
+  assertEquals([missing.code, missing.partitionName], ["PARTITION_NOT_FOUND", "velocity"]);
+
+  const query = buffer.query({ all: ["position"] });
+  buffer.removePartition("position");
+  const removed = assertThrows(() => query.count(), PartitionNotFoundError) as PartitionNotFoundError;
+  assertEquals(removed.partitionName, "position");
+});
+
+Deno.test("Errors - sparse capacity", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const sparse = buffer.addPartition<Position>({
+    name: "sparse",
+    schema: { x: Float32Array, y: Float32Array },
+    maxOwners: 2,
+    maxEntityId: 100,
+  });
+  sparse.set("x", 10, 1);
+  sparse.set("x", 20, 2);
+  const error = assertThrows(() => sparse.set("x", 30, 3), SparseCapacityError) as SparseCapacityError;
+  assertInstanceOf(error, RangeError);
+  assertEquals(error.message, "Dense storage exhausted for partition sparse (capacity: 2)");
+  assertEquals([error.code, error.partitionName, error.capacity, error.entity], ["SPARSE_CAPACITY", "sparse", 2, 30]);
+});
+
+Deno.test("Errors - invalid schemas and specifications", () => {
+  const shared = new SharedPartitionedBuffer(1024, 16);
+  const error = assertThrows(
+    () => shared.addPartition<{ title: string }>({ name: "label", schema: { title: string } }),
+    UnsupportedSchemaError,
+    'String properties are not supported in shared memory (schema property "title")',
+  ) as UnsupportedSchemaError;
+  assertInstanceOf(error, TypeError);
+  assertEquals([error.code, error.partitionName, error.property], ["UNSUPPORTED_SCHEMA", "label", "title"]);
+
+  const size = assertThrows(
+    () => getEntitySize({ x: Float32Array }, 3),
+    UnsupportedSchemaError,
+  ) as UnsupportedSchemaError;
+  assertEquals([size.partitionName, size.property], [undefined, undefined]);
+
+  // Schemas are checked before the rest of the specification
+  const property = assertThrows(
+    () => new Partition<{ hp: number }>({ name: "health", schema: { hp: [Float16Array, 70000] }, version: -1 }),
+    InvalidSchemaError,
+    'Invalid schema property "hp"',
+  ) as InvalidSchemaError;
+  assertInstanceOf(property, SyntaxError);
+  assertEquals([property.code, property.partitionName, property.property], ["INVALID_SCHEMA", "health", "hp"]);
+  const value = assertThrows(
+    () => shared.addPartition<{ id: number }>({ name: "ids", schema: { id: [Uint8Array, "1" as unknown as number] } }),
+    InvalidSchemaError,
+  ) as InvalidSchemaError;
+  assertEquals([value.partitionName, value.property], ["ids", "id"]);
+
+  const spec = assertThrows(
+    () => new Partition({ name: "", schema: null } as PartitionSpec<null>),
+    InvalidPartitionSpecError,
+    "Invalid partition specification.",
+  ) as InvalidPartitionSpecError;
+  assertInstanceOf(spec, SyntaxError);
+  assertEquals([spec.code, spec.partitionName], ["INVALID_PARTITION_SPEC", ""]);
+});
+
+Deno.test("Errors - storage properties and sparse indexes", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const position = buffer.addPartition<Position>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+  const missing = assertThrows(
+    () => position.set("z" as keyof Position, 0, 1),
+    PartitionNotFoundError,
+    "Partition z not found",
+  ) as PartitionNotFoundError;
+  assertEquals([missing.code, missing.partitionName], ["PARTITION_NOT_FOUND", "z"]);
+
+  const empty = assertThrows(() => new SparseIndex(0, { name: "hp" }), SparseCapacityError) as SparseCapacityError;
+  assertEquals([empty.code, empty.partitionName, empty.capacity, empty.entity], [
+    "SPARSE_CAPACITY",
+    "hp",
+    0,
+    undefined,
+  ]);
+  const huge = assertThrows(() => new SparseIndex(2 ** 31), SparseCapacityError, "maximum safe BitPool size");
+  assertEquals((huge as SparseCapacityError).capacity, 2 ** 31);
+
+  const maxEntityId = assertThrows(
+    () => new SparseIndex(4, { maxEntityId: -1, name: "hp" }),
+    InvalidPartitionSpecError,
+    "maxEntityId must be a non-negative safe integer",
+  ) as InvalidPartitionSpecError;
+  assertEquals([maxEntityId.code, maxEntityId.partitionName], ["INVALID_PARTITION_SPEC", "hp"]);
+});
+
+Deno.test("Errors - entity bounds and value ranges", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const position = buffer.addPartition<Position>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+  const dense = assertThrows(
+    () => position.set("x", 16, 1),
+    EntityOutOfBoundsError,
+    "Index 16 out of bounds for partition x",
+  ) as EntityOutOfBoundsError;
+  assertInstanceOf(dense, RangeError);
+  assertEquals([dense.code, dense.entity, dense.max], ["ENTITY_OUT_OF_BOUNDS", 16, 15]);
+
+  const health = buffer.addPartition<{ hp: number }>({
+    name: "health",
+    schema: { hp: Uint8Array },
+    maxOwners: 2,
+    maxEntityId: 99,
+  });
+  const sparse = assertThrows(() => health.set("hp", 100, 1), EntityOutOfBoundsError) as EntityOutOfBoundsError;
+  assertEquals([sparse.entity, sparse.max, sparse.partitionName], [100, 99, "health"]);
+  const copy = assertThrows(() => buffer.copyEntity(1, 100), EntityOutOfBoundsError) as EntityOutOfBoundsError;
+  assertEquals([copy.entity, copy.max, copy.partitionName], [100, 15, "position"]);
+  const tag = assertThrows(() => buffer.addPartition({ name: "alive" }).add(-1), EntityOutOfBoundsError);
+  assertEquals((tag as EntityOutOfBoundsError).max, 15);
+
+  const flags = buffer.addPartition<{ level: number }>({ name: "flags", schema: { level: uint(3) } });
+  const value = assertThrows(
+    () => flags.set("level", 0, 8),
+    ValueRangeError,
+    "Value 8 out of range for 3-bit field level",
+  ) as ValueRangeError;
+  assertInstanceOf(value, RangeError);
+  assertEquals([value.code, value.value, value.property], ["VALUE_RANGE", 8, "level"]);
+  const width = assertThrows(() => uint(33), ValueRangeError) as ValueRangeError;
+  assertEquals([width.value, width.property], [33, undefined]);
+
+  const full = new StringTableFullError(0xffffffff);
+  assertInstanceOf(full, RangeError);
+  assertEquals([full.code, full.message, full.capacity], ["STRING_TABLE_FULL", "String table is full", 0xffffffff]);
+});
+
+Deno.test("Errors - schema sizes and JSON", () => {
+  const huge: Schema<{ v: number[] }> = { v: { type: Float64Array, length: 2 ** 52 } };
+  const size = assertThrows(
+    () => getEntitySize(huge),
+    InvalidSchemaError,
+    "Size calculation overflow",
+  ) as InvalidSchemaError;
+  assertEquals([size.code, size.property], ["INVALID_SCHEMA", "v"]);
+
+  const json = assertThrows(
+    () => schemaToJSON({} as Schema<Position>),
+    UnsupportedSchemaError,
+  ) as UnsupportedSchemaError;
+  assertEquals(json.code, "UNSUPPORTED_SCHEMA");
+});
+
+Deno.test("Errors - buffer options and migrations", () => {
+  const cases: [() => unknown, InvalidBufferOptionsError["option"]][] = [
+    [() => new PartitionedBuffer(0), "size"],
+    [() => new PartitionedBuffer(100, 16), "size"],
+    [() => new PartitionedBuffer(64, 1.5), "maxEntitiesPerPartition"],
+    [() => new PartitionedBuffer(64, 4), "maxEntitiesPerPartition"],
+    [() => new SharedPartitionedBuffer(64, 8, { maxByteLength: 32 }), "maxByteLength"],
+    [() => PartitionedBuffer.requiredSize([], 4), "maxEntitiesPerPartition"],
+  ];
+  for (const [fn, option] of cases) {
+    const error = assertThrows(fn, InvalidBufferOptionsError) as InvalidBufferOptionsError;
+    assertInstanceOf(error, SyntaxError);
+    assertEquals([error.code, error.option], ["INVALID_BUFFER_OPTIONS", option]);
+  }
+
+  const migrations = new MigrationRegistry().register("position", 0, (values) => values);
+  const duplicate = assertThrows(
+    () => migrations.register("position", 0, (values) => values),
+    DuplicateMigrationError,
+    "Migration for partition position from version 0 already exists",
+  ) as DuplicateMigrationError;
+  assertEquals([duplicate.code, duplicate.partitionName, duplicate.fromVersion], [
+    "DUPLICATE_MIGRATION",
+    "position",
+    0,
+  ]);
+
+  const source = new PartitionedBuffer(64, 8);
+  source.addPartition({ name: "alive", version: 2 });
+  const downgrade = assertThrows(
+    () => PartitionedBuffer.migrate(source, [{ name: "alive", version: 1 }]),
+    MigrationDowngradeError,
+    "Cannot migrate partition alive from version 2 down to 1",
+  ) as MigrationDowngradeError;
+  assertInstanceOf(downgrade, RangeError);
+  assertEquals([downgrade.code, downgrade.partitionName, downgrade.fromVersion, downgrade.toVersion], [
+    "MIGRATION_DOWNGRADE",
+    "alive",
+    2,
+    1,
+  ]);
+});
@@ -0,0 +1,107 @@
+// deno-lint-ignore-file no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { MigrationRegistry } from "../src/Migration.ts";
+import { Partition } from "../src/Partition.ts";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { bool, string } from "../src/Schema.ts";
+
+type Vec2 = { x: number; y: number };
+type Vec3 = { x: number; y: number; z: number };
+
+Deno.test("Migration - copies matching properties and converts their types", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const position = buffer.addPartition<Vec2>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+  const health = buffer.addPartition<{ value: number; armor: number }>({
+    name: "health",
+    schema: { value: Uint8Array, armor: Uint8Array },
+    maxOwners: 4,
+  });
+  const frozen = buffer.addPartition({ name: "frozen", schema: null });
+  buffer.addPartition<{ value: number }>({ name: "obsolete", schema: { value: Uint8Array } });
+  position.set("x", 3, 1.5);
+  position.set("y", 3, -2);
+  health.set("value", 7, 200);
+  health.set("armor", 7, 3);
+  frozen.add(5);
+
+  const positionV1 = new Partition<Vec3>({
+    name: "position",
+    version: 1,
+    schema: { x: Float64Array, y: Int32Array, z: [Float32Array, 9] },
+  });
+  const healthV1 = new Partition<{ value: bigint; shielded: boolean }>({
+    name: "health",
+    version: 1,
+    schema: { value: BigInt64Array, shielded: bool },
+    maxOwners: 4,
+  });
+  const migrated = PartitionedBuffer.migrate(buffer.serialize(), [
+    positionV1,
+    healthV1,
+    { name: "frozen", schema: null },
+  ]);
+
+  assertEquals(migrated.maxEntitiesPerPartition, 16);
+  assertEquals([...migrated.partitionNames()], ["position", "health", "frozen"]);
+  const newPosition = migrated.getPartition(positionV1)!;
+  assertEquals(newPosition.get("x", 3), 1.5);
+  assertEquals(newPosition.get("y", 3), -2);
+  assertEquals(newPosition.get("z", 3), 9);
+  const newHealth = migrated.getPartition(healthV1)!;
+  assertEquals(newHealth.get("value", 7), 200n);
+  assertEquals(newHealth.get("shielded", 7), false);
+  assertEquals(migrated.getPartition<null>("frozen")!.has(5), true);
+  assertEquals(migrated.getPartition<null>("frozen")!.has(4), false);
+});
+
+Deno.test("Migration - runs registered steps between versions", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const label = buffer.addPartition<{ hp: number }>({ name: "label", schema: { hp: Uint8Array } });
+  label.set("hp", 2, 51);
+
+  type LabelV2 = { hp: number; title: string };
+  const labelV2 = new Partition<LabelV2>({ name: "label", version: 2, schema: { hp: Float32Array, title: string } });
+  const migrations = new MigrationRegistry()
+    .register("label", 0, (values) => ({ hp: (values["hp"] as number) / 255 }))
+    .register("label", 1, (values, entity) => {
+      values["title"] = `entity ${entity}`;
+    });
+  const migrated = PartitionedBuffer.migrate(buffer, [labelV2], { migrations });
+
+  const storage = migrated.getPartition(labelV2)!;
+  assertEquals(storage.get("hp", 2), Math.fround(0.2));
+  assertEquals(storage.get("title", 2), "entity 2");
+  assertEquals(storage.get("title", 15), "entity 15");
+
+  // Upgrading from version 1 only runs the second step
+  const fromV1 = new PartitionedBuffer(1024, 16);
+  fromV1.addPartition<{ hp: number }>({ name: "label", version: 1, schema: { hp: Float32Array } }).set("hp", 2, 0.5);
+  const upgraded = PartitionedBuffer.migrate(fromV1, [labelV2], { migrations }).getPartition(labelV2)!;
+  assertEquals(upgraded.get("hp", 2), 0.5);
+  assertEquals(upgraded.get("title", 2), "entity 2");
+});
+
+Deno.test("Migration - rejects invalid versions and steps", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  buffer.addPartition<{ x: number }>({ name: "position", version: 2, schema: { x: Float32Array } });
+  assertThrows(
+    () => PartitionedBuffer.migrate(buffer, [{ name: "position", version: 1, schema: { x: Float32Array } }]),
+    RangeError,
+    "Cannot migrate partition position from version 2 down to 1",
+  );
+  assertThrows(
+    () => buffer.addPartition<{ x: number }>({ name: "other", version: -1, schema: { x: Float32Array } }),
+    SyntaxError,
+  );
+  assertThrows(
+    () => buffer.addPartition<{ x: number }>({ name: "other", version: 1.5, schema: { x: Float32Array } }),
+    SyntaxError,
+  );
+
+  const migrations = new MigrationRegistry().register("position", 0, () => {});
+  assertThrows(() => migrations.register("position", 0, () => {}), Error, "already exists");
+  assertThrows(() => migrations.register("position", -1, () => {}), TypeError);
+  assertThrows(() => migrations.register("position", 1, null as unknown as () => void), TypeError);
+});
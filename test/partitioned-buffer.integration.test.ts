@@ -1,8 +1,10 @@
 // deno-lint-ignore-file no-import-prefix
 /// <reference lib="deno.ns" />
 
-import { assertEquals } from "jsr:@std/assert@^1.0.9";
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { InvalidSnapshotError, SparseCapacityError } from "../src/Errors.ts";
 import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { bool, string, uint } from "../src/Schema.ts";
 
 Deno.test("PartitionedBuffer - sparse multi-field partition clears stale dense slots on delete", () => {
   const buffer = new PartitionedBuffer(1024, 16);
@@ -33,3 +35,550 @@ Deno.test("PartitionedBuffer - sparse multi-field partition clears stale dense s
   assertEquals(position.get("x", 7), 7.5);
   assertEquals(position.get("y", 7), 0);
 });
+
+Deno.test("PartitionedBuffer - serialize and deserialize round trip", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  type Position = { x: number; y: number };
+  const position = buffer.addPartition<Position>({
+    name: "position",
+    schema: { x: Float32Array, y: [Float64Array, 2] },
+  });
+  buffer.addPartition({ name: "isAlive" });
+  buffer.addPartition<{ unused: number }>({ name: "unused", schema: { unused: Int8Array } });
+  const health = buffer.addPartition<{ hp: number; armour: number }>({
+    name: "health",
+    schema: { hp: Uint16Array, armour: Int8Array },
+    maxOwners: 4,
+    maxEntityId: 100,
+  });
+  const tags = buffer.addPartition<{ id: number }>({
+    name: "tags",
+    schema: { id: Uint32Array },
+    maxOwners: 4,
+  });
+  buffer.removePartition("unused");
+
+  position.set("x", 3, 1.5);
+  position.set("y", 3, 2.5);
+  health.set("hp", 1, 11);
+  health.set("hp", 99, 990);
+  health.set("armour", 99, -9);
+  health.set("hp", 50, 500);
+  delete health.partitions.hp[1]; // leaves a hole in the dense slots
+  tags.set("id", 123456, 7);
+
+  const bytes = buffer.serialize();
+  const restored = PartitionedBuffer.deserialize(bytes);
+
+  assertEquals(restored.byteLength, buffer.byteLength);
+  assertEquals(restored.maxEntitiesPerPartition, buffer.maxEntitiesPerPartition);
+  assertEquals(restored.getOffset(), buffer.getOffset());
+  assertEquals(restored.hasPartition("isAlive"), true);
+  assertEquals(restored.hasPartition("unused"), false);
+
+  const restoredPosition = restored.getPartition<Position>("position")!;
+  assertEquals(restoredPosition.byteOffset, position.byteOffset);
+  assertEquals(restoredPosition.get("x", 3), 1.5);
+  assertEquals(restoredPosition.get("y", 3), 2.5);
+  assertEquals(restoredPosition.get("y", 4), 2);
+
+  const restoredHealth = restored.getPartition<{ hp: number; armour: number }>("health")!;
+  assertEquals(restoredHealth.get("hp", 1), undefined);
+  assertEquals(restoredHealth.get("hp", 99), 990);
+  assertEquals(restoredHealth.get("armour", 99), -9);
+  assertEquals(restoredHealth.get("hp", 50), 500);
+  assertEquals(restored.getPartition<{ id: number }>("tags")!.get("id", 123456), 7);
+
+  // The released range is still reused after restoring
+  const reused = restored.addPartition<{ value: number }>({ name: "reused", schema: { value: Int8Array } });
+  assertEquals(reused.byteOffset < buffer.getOffset(), true);
+});
+
+Deno.test("PartitionedBuffer - deserialize a grown buffer", () => {
+  const buffer = new PartitionedBuffer(128, 16, { maxByteLength: 1000 });
+  buffer.addPartition<{ a: number }>({ name: "a", schema: { a: Float64Array } });
+  const b = buffer.addPartition<{ b: number }>({ name: "b", schema: { b: Float64Array } });
+  b.partitions.b[0] = 42;
+
+  const restored = PartitionedBuffer.deserialize(buffer.serialize().buffer);
+  assertEquals(restored.resizable, true);
+  assertEquals(restored.byteLength, buffer.byteLength);
+  assertEquals(restored.maxByteLength, 1000);
+  assertEquals(restored.getPartition<{ b: number }>("b")!.partitions.b[0], 42);
+});
+
+Deno.test("PartitionedBuffer - layoutHash", () => {
+  const create = (maxOwners?: number) => {
+    const buffer = new PartitionedBuffer(2048, 16);
+    buffer.addPartition<{ x: number; y: number }>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+    buffer.addPartition({ name: "frozen" });
+    buffer.addPartition<{ hp: number }>({ name: "health", schema: { hp: [Uint16Array, 100] }, maxOwners });
+    return buffer;
+  };
+  const buffer = create(4);
+  assertEquals(buffer.layoutHash(), create(4).layoutHash());
+  assertEquals(buffer.layoutHash(), PartitionedBuffer.deserialize(buffer.serialize()).layoutHash());
+  assertEquals(buffer.layoutHash() === create(8).layoutHash(), false);
+  assertEquals(buffer.layoutHash() === create().layoutHash(), false);
+
+  // The contents and buffer size don't change the hash
+  const hash = buffer.layoutHash();
+  buffer.getPartition<{ hp: number }>("health")!.set("hp", 3, 5);
+  assertEquals(buffer.layoutHash(), hash);
+
+  buffer.removePartition("frozen");
+  assertEquals(buffer.layoutHash() === hash, false);
+
+  // Partitions are hashed in layout order, not the order they were added
+  const readded = create(4);
+  readded.removePartition("position");
+  readded.addPartition<{ x: number; y: number }>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+  assertEquals(readded.getPartition("position")!.byteOffset, 0);
+  assertEquals(readded.layoutHash(), create(4).layoutHash());
+});
+
+Deno.test("PartitionedBuffer - deserialize rejects invalid data", () => {
+  const bytes = new PartitionedBuffer(64, 8).serialize();
+  assertThrows(() => PartitionedBuffer.deserialize(new Uint8Array(4)), TypeError, "unexpected end of data");
+  assertThrows(() => PartitionedBuffer.deserialize(new Uint8Array(64)), TypeError, "missing PBUF header");
+
+  const future = bytes.slice();
+  future[4] = 99;
+  assertThrows(() => PartitionedBuffer.deserialize(future), TypeError, "Unsupported snapshot version 99");
+});
+
+Deno.test("PartitionedBuffer - deserialize rejects a corrupt header", () => {
+  const bytes = new PartitionedBuffer(64, 8).serialize();
+  const view = new DataView(bytes.buffer);
+
+  const entities = bytes.slice();
+  new DataView(entities.buffer).setUint32(8, 0, true);
+  const error = assertThrows(
+    () => PartitionedBuffer.deserialize(entities),
+    InvalidSnapshotError,
+    "Invalid snapshot: corrupt header",
+  ) as InvalidSnapshotError;
+  assertEquals([error.code, error.version], ["INVALID_SNAPSHOT", view.getUint16(4, true)]);
+
+  const size = bytes.slice();
+  new DataView(size.buffer).setUint32(12, 60, true);
+  assertThrows(() => PartitionedBuffer.deserialize(size), InvalidSnapshotError, "corrupt header");
+
+  const offset = bytes.slice();
+  new DataView(offset.buffer).setUint32(20, 128, true);
+  assertThrows(() => PartitionedBuffer.deserialize(offset), InvalidSnapshotError, "corrupt header");
+});
+
+Deno.test("PartitionedBuffer - deserialize reads version 1 snapshots", () => {
+  // A version 1 snapshot has no elementsPerEntity, bits, schema version, alignment or string table fields
+  const bytes = new Uint8Array(128);
+  const view = new DataView(bytes.buffer);
+  let pos = 0;
+  const u8 = (n: number) => view.setUint8(pos++, n);
+  const u16 = (n: number) => (view.setUint16(pos, n, true), pos += 2);
+  const u32 = (n: number) => (view.setUint32(pos, n, true), pos += 4);
+  const f64 = (n: number) => (view.setFloat64(pos, n, true), pos += 8);
+  const str = (s: string) => (u8(s.length), [...s].forEach((c) => u8(c.charCodeAt(0))));
+  u32(0x46554250); // "PBUF"
+  u16(1); // version
+  u16(0); // flags
+  [8, 64, 64, 16, 0, 1].forEach(u32); // maxEntitiesPerPartition, byteLength, maxByteLength, offset, free ranges, partitions
+  str("health");
+  u8(0); // flags
+  f64(-1); // maxOwners
+  f64(-1); // maxEntityId
+  [0, 16].forEach(u32); // byteOffset, byteLength
+  u16(1);
+  str("hp");
+  str("Uint16Array");
+  f64(7);
+  [0, 8].forEach(u32); // byteOffset, length
+  const values = new Uint16Array(8).fill(7);
+  values[3] = 42;
+  bytes.set(new Uint8Array(values.buffer), pos);
+  pos += values.byteLength;
+
+  const restored = PartitionedBuffer.deserialize(bytes.subarray(0, pos));
+  const health = restored.getPartition<{ hp: number }>("health")!;
+  assertEquals([health.get("hp", 3), health.get("hp", 4)], [42, 7]);
+  const current = new PartitionedBuffer(64, 8);
+  current.addPartition<{ hp: number }>({ name: "health", schema: { hp: [Uint16Array, 7] } });
+  assertEquals(restored.getLayout(), current.getLayout());
+  assertEquals(PartitionedBuffer.deserialize(restored.serialize()).getLayout(), current.getLayout());
+});
+
+Deno.test("PartitionedBuffer - BigInt64Array and BigUint64Array partitions", () => {
+  type Handle = { id: bigint; timestamp: bigint; flags: number };
+  const buffer = new PartitionedBuffer(2048, 16);
+  const dense = buffer.addPartition<Handle>({
+    name: "handle",
+    schema: { flags: Uint8Array, id: [BigUint64Array, 2n ** 64n - 1n], timestamp: BigInt64Array },
+  });
+  assertEquals(dense.partitions.id.byteOffset % 8, 0);
+  assertEquals(dense.get("id", 3), 2n ** 64n - 1n);
+  assertEquals(dense.get("timestamp", 3), 0n);
+  dense.set("timestamp", 3, -5n);
+  assertEquals(dense.partitions.timestamp[3], -5n);
+
+  const sparse = buffer.addPartition<{ id: bigint }>({
+    name: "owner",
+    schema: { id: [BigInt64Array, -1n] },
+    maxOwners: 4,
+  });
+  sparse.set("id", 99, 2n ** 62n);
+  assertEquals(sparse.get("id", 99), 2n ** 62n);
+
+  // Defaults and values survive a snapshot
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals(restored.getPartition<Handle>("handle")!.get("timestamp", 3), -5n);
+  assertEquals(restored.getPartition<{ id: bigint }>("owner")!.get("id", 99), 2n ** 62n);
+  assertEquals(restored.describe().partitions[1]!.properties[0]!.type, "BigInt64Array");
+
+  // Bigint defaults must match the array type
+  assertThrows(
+    () => buffer.addPartition<{ id: bigint }>({ name: "bad", schema: { id: [BigInt64Array, 1 as unknown as bigint] } }),
+    SyntaxError,
+  );
+  buffer.removePartition("owner");
+  assertEquals(buffer.getPartition("owner"), undefined);
+});
+
+Deno.test("PartitionedBuffer - Float16Array partitions", () => {
+  type Color = { r: number; g: number; b: number };
+  const buffer = new PartitionedBuffer(1024, 16);
+  const color = buffer.addPartition<Color>({
+    name: "color",
+    schema: { r: [Float16Array, 1], g: Float16Array, b: [Float16Array, -65504] },
+  });
+  assertEquals(color.partitions.r instanceof Float16Array, true);
+  assertEquals(color.partitions.r.byteLength, 32);
+  assertEquals(color.get("r", 0), 1);
+  assertEquals(color.get("b", 0), -65504);
+  color.set("g", 2, 0.1);
+  assertEquals(color.get("g", 2), 0.0999755859375); // nearest half-precision value
+
+  const sparse = buffer.addPartition<{ n: number }>({ name: "normal", schema: { n: Float16Array }, maxOwners: 4 });
+  sparse.set("n", 500, 0.5);
+  assertEquals(sparse.get("n", 500), 0.5);
+
+  // Defaults must fit in half precision
+  assertThrows(
+    () => buffer.addPartition<{ n: number }>({ name: "tooBig", schema: { n: [Float16Array, 65505] } }),
+    SyntaxError,
+  );
+
+  const bytes = buffer.serialize();
+  assertEquals(PartitionedBuffer.deserialize(bytes).getPartition<Color>("color")!.get("g", 2), color.get("g", 2));
+
+  // Runtimes without Float16Array get a clear error
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, "Float16Array")!;
+  delete (globalThis as { Float16Array?: unknown }).Float16Array;
+  try {
+    assertThrows(
+      () => PartitionedBuffer.deserialize(bytes),
+      TypeError,
+      "Float16Array is not supported by this runtime",
+    );
+  } finally {
+    Object.defineProperty(globalThis, "Float16Array", descriptor);
+  }
+});
+
+Deno.test("PartitionedBuffer - fixed-length vector properties", () => {
+  type Transform = { matrix: Float32Array; layer: number };
+  const buffer = new PartitionedBuffer(4096, 16);
+  const transform = buffer.addPartition<Transform>({
+    name: "transform",
+    schema: { matrix: { type: Float32Array, length: 16 }, layer: [Uint8Array, 1] },
+  });
+  assertEquals(transform.partitions.matrix.length, 16 * 16);
+  assertEquals(transform.get("layer", 0), 1);
+
+  const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  transform.set("matrix", 2, new Float32Array(identity));
+  const matrix = transform.get("matrix", 2);
+  assertEquals([...matrix], identity);
+  assertEquals(matrix.byteOffset, transform.partitions.matrix.byteOffset + 2 * 16 * 4);
+  matrix[12] = 5; // subarrays are views into the partition
+  assertEquals(transform.partitions.matrix[2 * 16 + 12], 5);
+  assertEquals(transform.get("matrix", 16), undefined);
+  assertThrows(() => transform.set("matrix", 16, new Float32Array(16)), RangeError, "out of bounds");
+  assertThrows(() => transform.set("matrix", 0, new Float32Array(3)), RangeError, "Expected 16 values");
+
+  // Sparse vectors are stored in dense slots shared with the partition's other properties
+  type Velocity = { v: Float64Array; speed: number };
+  const velocity = buffer.addPartition<Velocity>({
+    name: "velocity",
+    schema: { v: { type: Float64Array, length: 3 }, speed: Float32Array },
+    maxOwners: 4,
+  });
+  assertEquals(velocity.partitions.v.length, 4 * 3);
+  velocity.set("v", 1000, new Float64Array([1, 2, 3]));
+  velocity.set("speed", 1000, 4);
+  velocity.set("v", 7, new Float64Array([4, 5, 6]));
+  assertEquals([...velocity.get("v", 1000)], [1, 2, 3]);
+  assertEquals(velocity.get("v", 8), undefined);
+  assertEquals([...velocity.partitions.v.subarray(0, 6)], [1, 2, 3, 4, 5, 6]);
+
+  // Vectors and their sparse slots survive a snapshot
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals(restored.describe().partitions[0]!.properties[0]!.length, 16 * 16);
+  assertEquals(restored.getPartition<Transform>("transform")!.get("matrix", 2)[12], 5);
+  assertEquals([...restored.getPartition<Velocity>("velocity")!.get("v", 7)], [4, 5, 6]);
+  assertEquals(restored.getPartition<Velocity>("velocity")!.get("speed", 1000), 4);
+  assertThrows(
+    () => buffer.addPartition<{ v: Float32Array }>({ name: "bad", schema: { v: { type: Float32Array, length: 1.5 } } }),
+    SyntaxError,
+  );
+
+  // Deleting a sparse entity zeroes its whole vector slot
+  delete velocity.partitions.speed[1000];
+  assertEquals(velocity.get("v", 1000), undefined);
+  assertEquals([...velocity.partitions.v.subarray(0, 3)], [0, 0, 0]);
+});
+
+Deno.test("PartitionedBuffer - bit-packed bitfield properties", () => {
+  type Flags = { visible: boolean; layer: number; id: number; speed: number };
+  const buffer = new PartitionedBuffer(4096, 16);
+  const flags = buffer.addPartition<Flags>({
+    name: "flags",
+    schema: { visible: bool, layer: uint(3, 2), speed: Float32Array, id: uint(30) },
+  });
+
+  // visible and layer share the first word, id needs a second one
+  const words = flags.partitions.visible;
+  assertEquals(words, flags.partitions.layer);
+  assertEquals(words, flags.partitions.id);
+  assertEquals(words.length, 16 * 2);
+  assertEquals(flags.get("visible", 0), false);
+  assertEquals(flags.get("layer", 0), 2);
+
+  flags.set("visible", 3, true);
+  flags.set("layer", 3, 7);
+  flags.set("id", 3, 2 ** 30 - 1);
+  assertEquals(flags.get("visible", 3), true);
+  assertEquals(flags.get("layer", 3), 7);
+  assertEquals(flags.get("id", 3), 2 ** 30 - 1);
+  assertEquals(words[3 * 2], 0b1111);
+  flags.set("visible", 3, false);
+  assertEquals(flags.get("layer", 3), 7);
+
+  assertThrows(() => flags.set("layer", 3, 8), RangeError, "Value 8 out of range for 3-bit field layer");
+  assertThrows(() => flags.set("layer", 3, 1.5), RangeError);
+  assertThrows(() => flags.set("visible", 3, 2 as unknown as boolean), RangeError);
+  assertThrows(() => flags.set("layer", 16, 1), RangeError, "out of bounds");
+  assertEquals(flags.get("layer", 16), undefined);
+
+  // Bitfields in sparse partitions share the partition's dense slots
+  type State = { alive: boolean; team: number; hp: number };
+  const state = buffer.addPartition<State>({
+    name: "state",
+    schema: { alive: bool, team: uint(32), hp: Uint16Array },
+    maxOwners: 4,
+  });
+  state.set("team", 900, 2 ** 32 - 1);
+  state.set("alive", 5, true);
+  assertEquals(state.get("team", 900), 2 ** 32 - 1);
+  assertEquals(state.get("alive", 900), false);
+  assertEquals(state.get("alive", 5), true);
+  assertEquals(state.get("alive", 6), undefined);
+
+  // Shared words are only counted once
+  const described = buffer.describe().partitions[0]!;
+  assertEquals(described.properties.map(({ type }) => type), ["bool", "uint", "Float32Array", "uint"]);
+  assertEquals(described.properties[1]!.padding, 0);
+  assertEquals(described.byteLength, 16 * 2 * 4 + 16 * 4);
+
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  const restoredFlags = restored.getPartition<Flags>("flags")!;
+  assertEquals(restoredFlags.get("layer", 3), 7);
+  assertEquals(restoredFlags.get("layer", 4), 2);
+  assertEquals(restoredFlags.get("id", 3), 2 ** 30 - 1);
+  assertEquals(restored.getPartition<State>("state")!.get("team", 900), 2 ** 32 - 1);
+  assertEquals(restored.getPartition<State>("state")!.get("alive", 5), true);
+});
+
+Deno.test("PartitionedBuffer - getEntity and setEntity records", () => {
+  type Unit = { x: number; id: bigint; visible: boolean; layer: number; title: string; path: Float32Array };
+  const buffer = new PartitionedBuffer(4096, 16);
+  const unit = buffer.addPartition<Unit>({
+    name: "unit",
+    schema: {
+      x: [Float32Array, 1],
+      id: BigInt64Array,
+      visible: bool,
+      layer: uint(3),
+      title: string,
+      path: { type: Float32Array, length: 2 },
+    },
+  });
+
+  assertEquals(unit.getEntity(0), {
+    x: 1,
+    id: 0n,
+    visible: false,
+    layer: 0,
+    title: "",
+    path: new Float32Array(2),
+  });
+  unit.setEntity(3, { x: 2.5, id: -7n, visible: true, layer: 5, title: "scout", path: new Float32Array([1, 2]) });
+  const record = unit.getEntity(3)!;
+  assertEquals([record.x, record.id, record.visible, record.layer, record.title], [2.5, -7n, true, 5, "scout"]);
+  assertEquals([...record.path], [1, 2]);
+
+  // Filling a caller-provided object copies vectors into its existing arrays
+  const target = { path: new Float32Array(2) } as Unit;
+  const path = target.path;
+  assertEquals(unit.getEntity(3, target), target);
+  assertEquals(target.path === path && target.title === "scout", true);
+  assertEquals([...path], [1, 2]);
+  assertEquals(unit.getEntity(16), undefined);
+
+  // Invalid records are rejected before anything is written
+  const valid: Unit = { x: 0, id: 0n, visible: false, layer: 0, title: "", path: new Float32Array(2) };
+  assertThrows(() => unit.setEntity(3, { ...valid, extra: 1 } as Unit), TypeError, "Unknown schema property extra");
+  assertThrows(() => unit.setEntity(3, { x: 0 } as Unit), TypeError, "Missing schema property id");
+  assertThrows(() => unit.setEntity(3, { ...valid, id: 1 as unknown as bigint }), TypeError, "must be a bigint");
+  assertThrows(() => unit.setEntity(3, { ...valid, layer: 8 }), RangeError, "out of range for 3-bit field layer");
+  assertThrows(() => unit.setEntity(3, { ...valid, path: new Float32Array(3) }), RangeError, "Expected 2 values");
+  assertThrows(() => unit.setEntity(16, valid), RangeError, "out of bounds");
+  assertEquals(unit.get("title", 3), "scout");
+  assertEquals(unit.get("layer", 3), 5);
+
+  // Entities are validated like the buffer's entity methods
+  assertThrows(() => unit.getEntity(1.5), TypeError, "Entity must be a safe integer, got 1.5");
+  assertThrows(() => unit.getEntity(NaN), TypeError, "Entity must be a safe integer");
+  assertThrows(() => unit.getEntity(-1), RangeError, "Entity index must be non-negative");
+  assertThrows(() => unit.setEntity(1.5, valid), TypeError, "Entity must be a safe integer, got 1.5");
+  assertEquals(unit.getEntity(16), undefined);
+});
+
+Deno.test("PartitionedBuffer - getEntity and setEntity on sparse partitions", () => {
+  const buffer = new PartitionedBuffer(2048, 16);
+  const position = buffer.addPartition<{ x: number; y: number }>({
+    name: "position",
+    schema: { x: Float32Array, y: [Float32Array, 3] },
+    maxOwners: 2,
+  });
+  assertEquals(position.getEntity(100), undefined);
+  position.setEntity(100, { x: 1, y: 2 });
+  assertEquals(position.getEntity(100), { x: 1, y: 2 });
+  assertEquals(position.getEntity(5), undefined);
+  position.setEntity(5, { x: 4, y: 5 });
+  assertThrows(() => position.setEntity(6, { x: 0, y: 0 }));
+  assertEquals(position.getEntity(6), undefined);
+  assertThrows(() => position.getEntity(1.5), TypeError, "Entity must be a safe integer, got 1.5");
+});
+
+Deno.test("PartitionedBuffer - copyEntity, moveEntity and swapEntities", () => {
+  type Vec2 = { x: number; y: number };
+  type Label = { title: string; layer: number };
+  const buffer = new PartitionedBuffer(4096, 16);
+  const position = buffer.addPartition<Vec2>({ name: "position", schema: { x: Float32Array, y: [Float32Array, 1] } });
+  const label = buffer.addPartition<Label>({ name: "label", schema: { title: string, layer: uint(3) }, maxOwners: 4 });
+  const frozen = buffer.addPartition({ name: "frozen" });
+  const names = buffer.addPartition<{ title: string }>({ name: "names", schema: { title: string } });
+
+  position.setEntity(1, { x: 3, y: 4 });
+  label.setEntity(1, { title: "hero", layer: 2 });
+  frozen.add(1);
+  names.set("title", 1, "first");
+
+  buffer.copyEntity(1, 2);
+  assertEquals(position.getEntity(2), { x: 3, y: 4 });
+  assertEquals(label.getEntity(2), { title: "hero", layer: 2 });
+  assertEquals(frozen.has(2), true);
+  assertEquals(buffer.strings.refCount(buffer.strings.handleOf("hero")!), 2);
+  assertEquals(buffer.strings.refCount(buffer.strings.handleOf("first")!), 2);
+
+  buffer.moveEntity(2, 5);
+  assertEquals(position.getEntity(2), { x: 0, y: 1 });
+  assertEquals(position.getEntity(5), { x: 3, y: 4 });
+  assertEquals([label.getEntity(2), label.getEntity(5)?.title], [undefined, "hero"]);
+  assertEquals([frozen.has(2), frozen.has(5)], [false, true]);
+  assertEquals([names.get("title", 2), names.get("title", 5)], ["", "first"]);
+  assertEquals(buffer.strings.refCount(buffer.strings.handleOf("first")!), 2);
+
+  position.setEntity(6, { x: 7, y: 8 });
+  buffer.swapEntities(5, 6);
+  assertEquals([position.getEntity(5), position.getEntity(6)], [{ x: 7, y: 8 }, { x: 3, y: 4 }]);
+  assertEquals([label.getEntity(5), label.getEntity(6)?.title], [undefined, "hero"]);
+  assertEquals([frozen.has(5), frozen.has(6)], [false, true]);
+
+  // A partition filter leaves other partitions alone
+  buffer.copyEntity(6, 7, ["position", "label"]);
+  assertEquals([position.getEntity(7)?.x, label.getEntity(7)?.title, frozen.has(7)], [3, "hero", false]);
+  buffer.copyEntity(6, 7, [{ name: "frozen" }]);
+  assertEquals(frozen.has(7), true);
+
+  // A copy into a full sparse partition fails before anything is written
+  label.setEntity(8, { title: "extra", layer: 1 });
+  const hero = buffer.strings.handleOf("hero")!;
+  const refCount = buffer.strings.refCount(hero);
+  const full = assertThrows(() => buffer.copyEntity(6, 9), SparseCapacityError) as SparseCapacityError;
+  assertEquals([full.partitionName, full.capacity, full.entity], ["label", 4, 9]);
+  assertEquals([position.getEntity(9), label.getEntity(9), frozen.has(9)], [{ x: 0, y: 1 }, undefined, false]);
+  assertEquals(buffer.strings.refCount(hero), refCount);
+  buffer.moveEntity(6, 9);
+  assertEquals(label.getEntity(9)?.title, "hero");
+
+  assertThrows(() => buffer.copyEntity(1, 16), RangeError, "out of bounds [0, 15] for partition position");
+  assertThrows(() => buffer.copyEntity(1, 1.5), TypeError);
+  assertThrows(() => buffer.copyEntity(1, 2, ["missing"]), Error, "Partition missing does not exist");
+  assertEquals(position.getEntity(16), undefined);
+});
+
+Deno.test("PartitionedBuffer - resetEntity and reset restore schema defaults", () => {
+  type Unit = { hp: number; level: number; aim: number[]; title: string };
+  type Slow = { factor: number; stacks: number; dir: number[] };
+  const buffer = new PartitionedBuffer(4096, 16);
+  const unit = buffer.addPartition<Unit>({
+    name: "unit",
+    schema: { hp: [Int16Array, 100], level: uint(4, 1), aim: { type: Float32Array, length: 2 }, title: string },
+  });
+  const slow = buffer.addPartition<Slow>({
+    name: "slow",
+    schema: { factor: [Float32Array, 0.5], stacks: uint(3, 2), dir: { type: Int8Array, length: 2 } },
+    maxOwners: 4,
+  });
+  const stunned = buffer.addPartition({ name: "stunned" });
+  const defaults = { hp: 100, level: 1, aim: [0, 0], title: "" };
+
+  unit.setEntity(3, { hp: 5, level: 9, aim: [1, 2], title: "hero" });
+  slow.setEntity(3, { factor: 0.25, stacks: 7, dir: [1, -1] });
+  stunned.add(3);
+  buffer.resetEntity(3);
+  assertEquals(unit.getEntity(3), { ...defaults, aim: new Float32Array(2) });
+  assertEquals(slow.getEntity(3), { factor: 0.5, stacks: 2, dir: new Int8Array(2) });
+  assertEquals([stunned.has(3), buffer.strings.handleOf("hero")], [true, undefined]);
+
+  // A partition filter leaves other partitions alone
+  unit.set("hp", 4, 1);
+  slow.set("factor", 4, 1);
+  buffer.resetEntity(4, ["slow"]);
+  assertEquals([unit.get("hp", 4), slow.get("factor", 4)], [1, 0.5]);
+
+  // Sparse slots re-acquired after a delete start at the defaults
+  slow.setEntity(5, { factor: 2, stacks: 5, dir: [3, 3] });
+  delete slow.partitions.factor[5];
+  assertEquals(slow.getEntity(5), undefined);
+  slow.set("dir", 6, [1, 1]);
+  assertEquals(slow.getEntity(6), { factor: 0.5, stacks: 2, dir: new Int8Array([1, 1]) });
+
+  // Moving resets the vacated dense slot
+  unit.setEntity(7, { hp: 7, level: 3, aim: [5, 6], title: "moved" });
+  buffer.moveEntity(7, 8);
+  assertEquals(unit.getEntity(7), { ...defaults, aim: new Float32Array(2) });
+  assertEquals(unit.getEntity(8)?.title, "moved");
+
+  buffer.reset();
+  assertEquals(unit.getEntity(8), { ...defaults, aim: new Float32Array(2) });
+  assertEquals([slow.getEntity(3), slow.getEntity(6), stunned.has(3)], [undefined, undefined, false]);
+  assertEquals(buffer.strings.size, 0);
+  slow.set("stacks", 9, 1);
+  assertEquals(slow.get("factor", 9), 0.5);
+  assertEquals([...buffer.partitionNames()], ["unit", "slow", "stunned"]);
+
+  assertThrows(() => buffer.resetEntity(16), RangeError, "out of bounds [0, 15] for partition unit");
+  assertThrows(() => buffer.resetEntity(1, ["missing"]), Error, "Partition missing does not exist");
+});
@@ -1,9 +1,12 @@
 // deno-lint-ignore-file no-explicit-any no-import-prefix
 /// <reference lib="deno.ns" />
 
-import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { assertEquals, assertInstanceOf, assertNotEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { InvalidPartitionSpecError } from "../src/Errors.ts";
 import { Partition, type PartitionSpec } from "../src/Partition.ts";
 import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { SharedPartitionedBuffer } from "../src/SharedPartitionedBuffer.ts";
+import { TagStorage } from "../src/TagStorage.ts";
 
 Deno.test("PartitionedBuffer - Constructor validation", () => {
   // Valid construction
@@ -88,7 +91,7 @@ Deno.test("PartitionedBuffer - Constructor with defaults", () => {
   assertEquals(partition !== null, true);
 });
 
-Deno.test("PartitionedBuffer - Null schema returns null", () => {
+Deno.test("PartitionedBuffer - Null schema returns a tag bitset", () => {
   const buffer = new PartitionedBuffer(1024, 8);
   const nullSpec: PartitionSpec<null> = {
     name: "null",
@@ -96,9 +99,10 @@ Deno.test("PartitionedBuffer - Null schema returns null", () => {
   };
   const nullPartition = new Partition(nullSpec);
   const nullInstance = buffer.addPartition(nullPartition);
-  assertEquals(nullInstance, null);
+  assertInstanceOf(nullInstance, TagStorage);
+  assertEquals(nullInstance.byteLength, 4);
   assertEquals(buffer.hasPartition("null"), true);
-  assertEquals(buffer.getPartition("null"), null);
+  assertEquals(buffer.getPartition("null"), nullInstance);
 });
 
 Deno.test("PartitionedBuffer - Basic partition creation", () => {
@@ -554,6 +558,31 @@ Deno.test("PartitionedBuffer - State consistency after errors", () => {
   }
 });
 
+Deno.test("PartitionedBuffer - a failed addPartition leaves no bytes allocated", () => {
+  const buffer = new PartitionedBuffer(256, 16);
+  buffer.addPartition<{ value: number }>({ name: "valid", schema: { value: Int8Array } });
+  const stats = buffer.stats();
+
+  // The first array is created before the second fails
+  const fill = Float64Array.prototype.fill;
+  Float64Array.prototype.fill = () => {
+    throw new Error("fill failed");
+  };
+  try {
+    assertThrows(
+      () =>
+        buffer.addPartition<{ x: number; y: number }>({ name: "body", schema: { x: Float32Array, y: Float64Array } }),
+      InvalidPartitionSpecError,
+      "fill failed",
+    );
+  } finally {
+    Float64Array.prototype.fill = fill;
+  }
+  assertEquals(buffer.stats(), stats);
+  assertEquals(buffer.getOffset(), 16);
+  assertEquals(buffer.addPartition<{ value: number }>({ name: "next", schema: { value: Int8Array } }).byteOffset, 16);
+});
+
 Deno.test("PartitionedBuffer - Buffer overflow protection", () => {
   const buffer = new PartitionedBuffer(256, 16);
 
@@ -586,3 +615,482 @@ Deno.test("PartitionedBuffer - Buffer overflow protection", () => {
     assertEquals(array[array.length], undefined);
   }
 });
+
+Deno.test("PartitionedBuffer - removePartition unregisters and zeroes", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const position = buffer.addPartition<{ x: number }>({ name: "position", schema: { x: Float32Array } });
+  buffer.addPartition({ name: "tag" });
+  position.partitions.x[0] = 42;
+  const view = position.partitions.x;
+
+  assertEquals(buffer.removePartition("position"), true);
+  assertEquals(buffer.removePartition("tag"), true);
+  assertEquals(buffer.hasPartition("position"), false);
+  assertEquals(buffer.hasPartition("tag"), false);
+  assertEquals(view[0], 0);
+
+  // Removing again is a no-op
+  assertEquals(buffer.removePartition("position"), false);
+  assertThrows(
+    () => buffer.removePartition(null as any),
+    TypeError,
+    "key must be a string or PartitionSpec",
+  );
+});
+
+Deno.test("PartitionedBuffer - removePartition reclaims the tail", () => {
+  const buffer = new PartitionedBuffer(256, 16);
+  buffer.addPartition<{ a: number }>({ name: "a", schema: { a: Float64Array } });
+  const offsetAfterA = buffer.getOffset();
+  const b = new Partition<{ b: number }>({ name: "b", schema: { b: Float64Array } });
+  buffer.addPartition(b);
+
+  assertEquals(buffer.getFreeSpace(), 0);
+  assertEquals(buffer.removePartition(b), true);
+  assertEquals(buffer.getOffset(), offsetAfterA);
+  assertEquals(buffer.getFreeSpace(), 256 - offsetAfterA);
+});
+
+Deno.test("PartitionedBuffer - addPartition reuses removed ranges", () => {
+  const buffer = new PartitionedBuffer(384, 16);
+  buffer.addPartition<{ a: number }>({ name: "a", schema: { a: Float64Array } });
+  buffer.addPartition<{ b: number }>({ name: "b", schema: { b: Float64Array } });
+  buffer.addPartition<{ c: number }>({ name: "c", schema: { c: Float64Array } });
+  assertEquals(buffer.getFreeSpace(), 0);
+
+  // Without a released range, there is no room
+  assertThrows(
+    () => buffer.addPartition<{ d: number }>({ name: "d", schema: { d: Int32Array } }),
+    Error,
+    "Not enough free space",
+  );
+
+  buffer.removePartition("b");
+  const d = buffer.addPartition<{ d: number }>({ name: "d", schema: { d: Int32Array } });
+  assertEquals(d.byteOffset, 128);
+  assertEquals(d.partitions.d.byteOffset, 128);
+
+  // The remainder of the released range is still available
+  const e = buffer.addPartition<{ e: number }>({ name: "e", schema: { e: Int32Array } });
+  assertEquals(e.partitions.e.byteOffset, 192);
+  assertThrows(
+    () => buffer.addPartition<{ f: number }>({ name: "f", schema: { f: Int8Array } }),
+    Error,
+    "Not enough free space",
+  );
+
+  // Adjacent released ranges are merged
+  buffer.removePartition("d");
+  buffer.removePartition("e");
+  const g = buffer.addPartition<{ g: number }>({ name: "g", schema: { g: Float64Array } });
+  assertEquals(g.byteOffset, 128);
+});
+
+Deno.test("PartitionedBuffer - Growable buffer", () => {
+  const buffer = new PartitionedBuffer(128, 16, { maxByteLength: 512 });
+  assertEquals(buffer.resizable, true);
+  assertEquals(buffer.getFreeSpace(), 128);
+  assertEquals(buffer.getMaxFreeSpace(), 512);
+
+  const a = buffer.addPartition<{ a: number }>({ name: "a", schema: { a: Float64Array } });
+  a.partitions.a[15] = 42;
+  const b = buffer.addPartition<{ b: number }>({ name: "b", schema: { b: Float64Array } });
+
+  // The buffer doubled to fit the second partition and existing views are still valid
+  assertEquals(buffer.byteLength, 256);
+  assertEquals(b.byteOffset, 128);
+  assertEquals(a.partitions.a.length, 16);
+  assertEquals(a.partitions.a[15], 42);
+  assertEquals(buffer.getFreeSpace(), 0);
+  assertEquals(buffer.getMaxFreeSpace(), 256);
+
+  buffer.addPartition<{ c: number; d: number }>({ name: "c", schema: { c: Float64Array, d: Float64Array } });
+  assertEquals(buffer.byteLength, 512);
+
+  assertThrows(
+    () => buffer.addPartition<{ e: number }>({ name: "e", schema: { e: Int8Array } }),
+    Error,
+    "Not enough free space",
+  );
+});
+
+Deno.test("PartitionedBuffer - Growable buffer validation", () => {
+  const buffer = new PartitionedBuffer(64, 8);
+  assertEquals(buffer.resizable, false);
+  assertEquals(buffer.getMaxFreeSpace(), buffer.getFreeSpace());
+
+  assertThrows(
+    () => new PartitionedBuffer(64, 8, { maxByteLength: 32 }),
+    SyntaxError,
+    "maxByteLength must be >= size",
+  );
+  assertThrows(
+    () => new PartitionedBuffer(64, 8, { maxByteLength: 1.5 }),
+    SyntaxError,
+    "maxByteLength must be a Uint32 number",
+  );
+});
+
+Deno.test("PartitionedBuffer - describe reports layout and padding", () => {
+  const buffer = new PartitionedBuffer(576, 9);
+  buffer.addPartition<{ flag: number; value: number }>({
+    name: "mixed",
+    schema: { flag: Uint8Array, value: Float64Array },
+  });
+  buffer.addPartition({ name: "tag" });
+  buffer.addPartition<{ hp: number }>({ name: "health", schema: { hp: Uint16Array }, maxOwners: 4 });
+
+  const report = buffer.describe();
+  assertEquals(report.byteLength, 576);
+  assertEquals(report.maxEntitiesPerPartition, 9);
+  assertEquals(report.partitions.map((p) => p.name), ["mixed", "tag", "health"]);
+
+  const [mixed, tag, health] = report.partitions;
+  assertEquals(mixed!.properties, [
+    { name: "flag", type: "Uint8Array", length: 9, byteOffset: 0, byteLength: 9, padding: 0 },
+    { name: "value", type: "Float64Array", length: 9, byteOffset: 16, byteLength: 72, padding: 7 },
+  ]);
+  assertEquals(mixed!.byteLength, 88);
+  assertEquals(mixed!.isSparse, false);
+  assertEquals(tag!.isTag, true);
+  assertEquals(tag!.byteLength, 4);
+  assertEquals(tag!.properties, []);
+  assertEquals(health!.isSparse, true);
+  assertEquals(health!.properties[0]!.length, 4);
+
+  assertEquals(report.usedBytes, 9 + 72 + 4 + 8);
+  assertEquals(report.paddingBytes, 7 + 4);
+  assertEquals(report.freeBytes, buffer.getFreeSpace());
+  assertEquals(report.usedBytes + report.paddingBytes + report.freeBytes, 576);
+
+  // Released ranges count as free
+  buffer.removePartition("mixed");
+  assertEquals(buffer.describe().freeBytes, 576 - 4 - 12);
+});
+
+Deno.test("PartitionedBuffer - stats reports memory usage", () => {
+  const buffer = new PartitionedBuffer(576, 9);
+  buffer.addPartition<{ flag: number; value: number }>({
+    name: "mixed",
+    schema: { flag: Uint8Array, value: Float64Array },
+  });
+  buffer.addPartition({ name: "tag" });
+  const health = buffer.addPartition<{ hp: number }>({
+    name: "health",
+    schema: { hp: Uint16Array },
+    maxOwners: 4,
+    maxEntityId: 99,
+  });
+  const label = buffer.addPartition<{ id: number }>({ name: "label", schema: { id: Uint8Array }, maxOwners: 2 });
+
+  health.set("hp", 10, 1);
+  health.set("hp", 20, 2);
+  health.set("hp", 30, 3);
+  delete health.partitions.hp[20];
+  label.set("id", 5, 1);
+
+  const stats = buffer.stats();
+  assertEquals([stats.byteLength, stats.partitionCount, stats.tagCount], [576, 4, 1]);
+  const [mixed, tag, hp, id] = stats.partitions;
+  assertEquals(mixed, { name: "mixed", isTag: false, byteLength: 88, usedBytes: 81, paddingBytes: 7, sparse: null });
+  assertEquals(tag, { name: "tag", isTag: true, byteLength: 4, usedBytes: 4, paddingBytes: 0, sparse: null });
+  assertEquals([hp!.usedBytes, hp!.paddingBytes], [8, 4]);
+
+  // Zero-allocation indexes hold their sparse and dense Int32Arrays, dynamic ones a Map
+  assertEquals(hp!.sparse, { capacity: 4, occupied: 2, highWater: 3, indexBytes: 100 * 4 + 4 * 4 });
+  assertEquals(id!.sparse!.occupied, 1);
+  assertEquals(stats.indexBytes, hp!.sparse!.indexBytes + id!.sparse!.indexBytes);
+
+  const report = buffer.describe();
+  assertEquals([stats.usedBytes, stats.paddingBytes, stats.freeBytes], [
+    report.usedBytes,
+    report.paddingBytes,
+    report.freeBytes,
+  ]);
+  assertEquals(stats.partitions.reduce((total, p) => total + p.byteLength, 0) + stats.freeBytes, 576);
+});
+
+Deno.test("PartitionedBuffer - iterates partitions in layout order", () => {
+  const buffer = new PartitionedBuffer(1024, 16);
+  const small = buffer.addPartition<{ value: number }>({ name: "small", schema: { value: Uint8Array } });
+  buffer.addPartition({ name: "tag" });
+  const large = buffer.addPartition<{ x: number; y: number }>({
+    name: "large",
+    schema: { x: Float32Array, y: Float32Array },
+  });
+
+  assertEquals([...buffer.partitionNames()], ["small", "tag", "large"]);
+  assertEquals([...buffer.partitions()].map((p) => p.name), ["small", "tag", "large"]);
+
+  const entries = [...buffer];
+  assertEquals(entries.length, 3);
+  assertEquals(entries[0]![1], small);
+  assertInstanceOf(entries[1]![1], TagStorage);
+  assertEquals(entries[2]![1], large);
+
+  // A partition reusing a released range is listed by its byte offset, not insertion order
+  buffer.removePartition("small");
+  buffer.addPartition<{ value: number }>({ name: "reused", schema: { value: Int8Array } });
+  assertEquals([...buffer.partitionNames()], ["reused", "tag", "large"]);
+});
+
+Deno.test("PartitionedBuffer - requiredSize matches addPartition alignment", () => {
+  const mixed: PartitionSpec<{ flag: number; value: number }> = {
+    name: "mixed",
+    schema: { flag: Uint8Array, value: Float64Array },
+  };
+  const tag: PartitionSpec = { name: "tag" };
+  const health = new Partition<{ hp: number }>({ name: "health", schema: { hp: Uint16Array }, maxOwners: 4 });
+
+  // 16 + 72 bytes, an 8-byte tag bitset and 8 sparse bytes, rounded up to a multiple of 9
+  const size = PartitionedBuffer.requiredSize([mixed, tag, health], 9);
+  assertEquals(size, 108);
+  const buffer = new PartitionedBuffer(size, 9);
+  [mixed, tag, health].forEach((spec: any) => buffer.addPartition(spec));
+  const tooSmall = new PartitionedBuffer(size - 9, 9);
+  assertThrows(() => [mixed, tag, health].forEach((spec: any) => tooSmall.addPartition(spec)), Error, "health");
+
+  assertEquals(PartitionedBuffer.requiredSize([], 16), 16);
+  assertThrows(() => PartitionedBuffer.requiredSize([tag], 4), SyntaxError);
+  assertThrows(() => PartitionedBuffer.requiredSize([tag, tag], 16), Error, "Partition name tag already exists");
+  assertThrows(
+    () => PartitionedBuffer.requiredSize([{ name: "bad", schema: { x: Object as any } }], 16),
+    SyntaxError,
+  );
+});
+
+Deno.test("PartitionedBuffer - fromSpecs allocates and adds partitions", () => {
+  type Vec2 = { x: number; y: number };
+  const position: PartitionSpec<Vec2> = { name: "position", schema: { x: Float32Array, y: [Float64Array, 1] } };
+  const alive: PartitionSpec = { name: "alive" };
+  const aim = new Partition<{ dir: number[] }>({
+    name: "aim",
+    schema: { dir: { type: Int16Array, length: 3 } },
+    maxOwners: 8,
+  });
+
+  const { buffer, partitions } = PartitionedBuffer.fromSpecs({ position, isAlive: alive, aim }, 64);
+  assertEquals(buffer.byteLength, PartitionedBuffer.requiredSize([position, alive, aim], 64));
+  assertEquals([...buffer.partitionNames()], ["position", "alive", "aim"]);
+  assertEquals(buffer.getFreeSpace() < 64, true);
+
+  partitions.position.set("x", 63, 2);
+  partitions.isAlive.add(63);
+  partitions.aim.set("dir", 900, [1, 2, 3]);
+  assertInstanceOf(partitions.isAlive, TagStorage);
+  assertEquals(buffer.getPartition<Vec2>("position")!.getEntity(63), { x: 2, y: 1 });
+  assertEquals(partitions.aim, buffer.getPartition(aim));
+});
+
+Deno.test("PartitionedBuffer - fromSpecs sizes buffers to the bytes addPartition uses", () => {
+  // Each 9-byte array is followed by the next one, not padded to its partition's 16-byte aligned size
+  const first: PartitionSpec<{ value: number }> = { name: "first", schema: { value: Uint8Array } };
+  const second: PartitionSpec<{ value: number }> = { name: "second", schema: { value: Uint8Array } };
+  const { buffer } = PartitionedBuffer.fromSpecs({ first, second }, 9, { layout: "packed" });
+  assertEquals(buffer.byteLength, 18);
+  assertEquals(buffer.stats().freeBytes, 0);
+
+  // Declared arrays start on 8-byte boundaries, so only rounding up to a multiple of 9 is left free
+  const declared = PartitionedBuffer.fromSpecs({ first, second }, 9);
+  assertEquals(declared.buffer.byteLength, 27);
+  assertEquals(declared.buffer.stats().freeBytes, 2);
+
+  // A partition fits when its arrays do, even if its aligned size doesn't
+  const dense: PartitionSpec<{ value: number }> = { name: "dense", schema: { value: Float64Array }, maxOwners: 2 };
+  const single: PartitionSpec<{ value: number }> = { name: "single", schema: { value: Uint8Array }, maxOwners: 1 };
+  const exact = PartitionedBuffer.fromSpecs({ dense, single }, 9);
+  assertEquals([exact.buffer.byteLength, exact.buffer.stats().freeBytes], [18, 1]);
+});
+
+Deno.test("PartitionedBuffer - custom partition and property alignment", () => {
+  type Flags = { on: number };
+  type Body = { x: number; y: number; mass: number };
+  const flags: PartitionSpec<Flags> = { name: "flags", schema: { on: Uint8Array } };
+  const body: PartitionSpec<Body> = {
+    name: "body",
+    schema: { x: Float32Array, y: Float32Array, mass: Uint8Array },
+    alignment: 64,
+  };
+  const simd = new Partition<Body>({
+    name: "simd",
+    schema: { x: Float32Array, y: Float32Array, mass: Uint8Array },
+    alignment: { y: 32 },
+  });
+  const tag: PartitionSpec = { name: "tag", alignment: 64 };
+
+  const { buffer, partitions } = PartitionedBuffer.fromSpecs({ flags, body, tag, simd, after: { name: "after" } }, 10);
+  // Every body column starts on a cache line, only simd's y column is 32-byte aligned
+  assertEquals(Object.values(partitions.body.partitions).map((array) => array.byteOffset), [64, 128, 192]);
+  assertEquals(Object.values(partitions.simd.partitions).map((array) => array.byteOffset), [320, 384, 424]);
+  // The padded end of a 64-byte aligned partition is reserved
+  assertEquals(partitions.body.byteOffset, 10);
+  assertEquals(partitions.body.byteLength, 64 * 3 - 10 + 64);
+  assertEquals((partitions.tag.byteOffset + partitions.tag.byteLength) % 64, 4);
+  assertEquals(partitions.simd.byteOffset, 320);
+
+  const report = buffer.describe();
+  assertEquals(report.usedBytes + report.paddingBytes + report.freeBytes, buffer.byteLength);
+  assertEquals(report.partitions[1]!.byteLength, 64 * 4 - 10);
+
+  // Removing an aligned partition releases its padding too
+  buffer.removePartition("body");
+  assertEquals(buffer.addPartition<Body>({ ...body, name: "body2" }).partitions.x.byteOffset, 64);
+
+  // Alignment survives snapshots and layouts
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals(restored.layoutHash(), buffer.layoutHash());
+  assertEquals(restored.getPartition("simd")!.byteOffset, 320);
+  const shared = new SharedPartitionedBuffer(1020, 10);
+  shared.addPartition(body);
+  shared.addPartition(simd);
+  const layout = shared.getLayout();
+  assertEquals(layout.partitions.map((p) => p.alignment), [64, { y: 32 }]);
+  const attached = SharedPartitionedBuffer.fromLayout(shared.memory, layout);
+  assertEquals(
+    attached.getPartition<Body>("simd")!.partitions.y.byteOffset,
+    shared.getPartition(simd)!.partitions.y.byteOffset,
+  );
+  const hashes = new Set([64, 32, null].map((alignment) => {
+    const b = new PartitionedBuffer(1024, 16);
+    b.addPartition<Body>({ ...body, alignment } as PartitionSpec<Body>);
+    return b.layoutHash();
+  }));
+  assertEquals(hashes.size, 3);
+
+  assertEquals(simd.size, 64);
+  assertThrows(() => new Partition<Body>({ ...body, alignment: 24 }), SyntaxError);
+  assertThrows(() => new Partition<Body>({ ...body, alignment: { z: 16 } as any }), SyntaxError);
+  assertThrows(() => new Partition({ name: "t", alignment: { x: 16 } as any }), SyntaxError);
+});
+
+Deno.test("PartitionedBuffer - packed layouts", () => {
+  type Unit = { team: number; hp: number; rank: number };
+  const unit: PartitionSpec<Unit> = { name: "unit", schema: { team: Uint8Array, hp: Float64Array, rank: Uint8Array } };
+  const packedUnit: PartitionSpec<Unit> = { ...unit, name: "packedUnit", layout: "packed" };
+  assertEquals(new Partition(unit).size, 24);
+  assertEquals(new Partition(packedUnit).size, 16);
+
+  const buffer = new PartitionedBuffer(400, 10);
+  const declared = buffer.addPartition(unit);
+  const packed = buffer.addPartition(packedUnit);
+  const offsets = (storage: typeof packed) => Object.values(storage.partitions).map((array) => array.byteOffset);
+  assertEquals(offsets(declared), [0, 16, 96]);
+  // Arrays are placed by descending alignment, but keep their names and declaration order
+  assertEquals(Object.keys(packed.partitions), ["team", "hp", "rank"]);
+  assertEquals(offsets(packed), [192, 112, 202]);
+  packed.set("hp", 9, 1.5);
+  packed.set("rank", 9, 3);
+  assertEquals(packed.getEntity(9), { team: 0, hp: 1.5, rank: 3 });
+
+  const report = buffer.describe();
+  assertEquals(report.partitions[1]!.properties.map((property) => property.padding), [0, 6, 0]);
+  assertEquals(report.usedBytes + report.paddingBytes + report.freeBytes, buffer.byteLength);
+  assertEquals(buffer.getOffset(), 212);
+
+  // Layouts survive snapshots and are part of the layout hash
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals(offsets(restored.getPartition<Unit>("packedUnit")!), offsets(packed));
+  assertEquals(restored.getPartition<Unit>("packedUnit")!.getEntity(9), { team: 0, hp: 1.5, rank: 3 });
+  assertEquals(restored.layoutHash(), buffer.layoutHash());
+  const other = new PartitionedBuffer(400, 10);
+  other.addPartition(unit);
+  other.addPartition({ ...unit, name: "packedUnit" });
+  assertNotEquals(other.layoutHash(), buffer.layoutHash());
+
+  assertThrows(() => new Partition<Unit>({ ...unit, layout: "tight" as any }), SyntaxError);
+});
+
+Deno.test("PartitionedBuffer - packed batches and packing reports", () => {
+  type Unit = { team: number; hp: number; rank: number };
+  type Vec2 = { x: number; y: number };
+  const unit: PartitionSpec<Unit> = { name: "unit", schema: { team: Uint8Array, hp: Float64Array, rank: Uint8Array } };
+  const flags: PartitionSpec<{ on: number }> = { name: "flags", schema: { on: Uint8Array } };
+  const body: PartitionSpec<Vec2> = { name: "body", schema: { x: Float32Array, y: Float32Array }, alignment: 64 };
+  const specs = [flags, body, unit];
+
+  const report = PartitionedBuffer.packingReport(specs, 10);
+  assertEquals(report.partitions, [
+    { name: "flags", declaredBytes: 16, packedBytes: 16, savedBytes: 0 },
+    { name: "body", declaredBytes: 128, packedBytes: 128, savedBytes: 0 },
+    { name: "unit", declaredBytes: 112, packedBytes: 104, savedBytes: 8 },
+  ]);
+  // Packed, the cache-aligned body goes first instead of being padded to the next 64-byte boundary
+  assertEquals(report, { declaredBytes: 298, packedBytes: 244, savedBytes: 54, partitions: report.partitions });
+  assertEquals(PartitionedBuffer.requiredSize(specs, 10, { layout: "packed" }), 250);
+
+  const { buffer, partitions } = PartitionedBuffer.fromSpecs({ unit, flags, body }, 10, { layout: "packed" });
+  assertEquals(Object.keys(partitions), ["unit", "flags", "body"]);
+  assertEquals(partitions.body.byteOffset, 0);
+  assertEquals(partitions.unit.partitions.hp.byteOffset, 128);
+  assertEquals(buffer.getPartition<Unit>(unit)!.partitions.team.byteOffset, 208);
+  assertEquals(buffer.byteLength, 240);
+
+  // Specs with their own layout keep it
+  const declared = PartitionedBuffer.fromSpecs({ unit: { ...unit, layout: "declared" } }, 10, { layout: "packed" });
+  assertEquals(declared.partitions.unit.partitions.team.byteOffset, 0);
+
+  // Instances are packed and reordered like specs, as copies registered under the same name
+  const instance = new Partition<Unit>(unit);
+  const batch = PartitionedBuffer.fromSpecs({ flags, unit: instance, body }, 10, { layout: "packed" });
+  assertEquals([...batch.buffer.partitionNames()], ["body", "flags", "unit"]);
+  assertEquals(batch.partitions.unit.partitions.hp.byteOffset, 144);
+  assertEquals(batch.partitions.unit.partitions.team.byteOffset, 224);
+  assertEquals(batch.buffer.getPartition<Unit>("unit"), batch.partitions.unit);
+  assertEquals(batch.buffer.getPartition<Unit>(instance), undefined);
+  assertThrows(() => PartitionedBuffer.packingReport([unit, unit], 10), Error, "already exists");
+});
+
+Deno.test("PartitionedBuffer - planPartition and canAddPartition", () => {
+  const buffer = new PartitionedBuffer(120, 10);
+  const flags = new Partition<{ on: number }>({ name: "flags", schema: { on: Uint8Array } });
+  const speed: PartitionSpec<{ value: number }> = { name: "speed", schema: { value: Float32Array } };
+  const mass: PartitionSpec<{ value: number }> = { name: "mass", schema: { value: Float64Array } };
+  buffer.addPartition(flags);
+
+  const plan = buffer.planPartition(speed);
+  assertEquals(plan, {
+    name: "speed",
+    fits: true,
+    grows: false,
+    byteOffset: 10,
+    padding: 6,
+    alignedSize: 40,
+    shortfall: 0,
+  });
+  assertEquals(buffer.canAddPartition(speed), true);
+  assertEquals(buffer.getOffset(), 10);
+  assertEquals(buffer.addPartition(speed).byteOffset, plan.byteOffset);
+  assertEquals(buffer.getOffset(), 56);
+
+  // Planning changes nothing, and add() reports the same shortfall
+  assertEquals(buffer.planPartition(mass), {
+    name: "mass",
+    fits: false,
+    grows: false,
+    byteOffset: 56,
+    padding: 0,
+    alignedSize: 80,
+    shortfall: 16,
+  });
+  assertEquals(buffer.canAddPartition(mass), false);
+  assertEquals(buffer.getOffset(), 56);
+  assertThrows(() => buffer.addPartition(mass), Error, "Required: 16)");
+  assertEquals(buffer.hasPartition(mass), false);
+
+  // Registered instances can be "added" again, other partitions with their names can't
+  assertEquals(buffer.canAddPartition(flags), true);
+  assertEquals(buffer.planPartition(flags).byteOffset, 0);
+  assertEquals(buffer.canAddPartition({ name: "flags" }), false);
+  assertThrows(() => buffer.planPartition({ name: "flags" }), Error, "already exists");
+  assertThrows(() => buffer.canAddPartition({ name: "" }), SyntaxError);
+
+  // Released ranges are planned before the current offset
+  buffer.removePartition(flags);
+  assertEquals(buffer.planPartition({ name: "tag" }).byteOffset, 0);
+
+  // Resizable buffers report that they need to grow
+  const growable = new PartitionedBuffer(16, 8, { maxByteLength: 64 });
+  assertEquals(growable.planPartition(mass).grows, true);
+  assertEquals(growable.planPartition(mass).fits, true);
+  assertEquals(growable.byteLength, 16);
+});
@@ -0,0 +1,102 @@
+// deno-lint-ignore-file no-explicit-any no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { Partition } from "../src/Partition.ts";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+
+type Vec2 = { x: number; y: number };
+
+function createWorld() {
+  const buffer = new PartitionedBuffer(4096, 64);
+  const position = buffer.addPartition<Vec2>({
+    name: "position",
+    schema: { x: Float32Array, y: Float32Array },
+    maxOwners: 32,
+    maxEntityId: 63,
+  });
+  const velocity = buffer.addPartition<Vec2>({
+    name: "velocity",
+    schema: { x: Float32Array, y: Float32Array },
+    maxOwners: 16,
+  });
+  const health = buffer.addPartition<{ hp: number }>({ name: "health", schema: { hp: Uint8Array } });
+  const frozen = buffer.addPartition({ name: "frozen" });
+  const visible = buffer.addPartition({ name: "visible" });
+  return { buffer, position, velocity, health, frozen, visible };
+}
+
+Deno.test("Query - all / any / none clauses", () => {
+  const { buffer, position, velocity, frozen, visible } = createWorld();
+  for (const entity of [1, 2, 3, 5, 8]) position.set("x", entity, entity);
+  for (const entity of [2, 3, 8, 13]) velocity.set("x", entity, entity);
+  frozen.add(3);
+  visible.add(1);
+  visible.add(13);
+
+  assertEquals([...buffer.query({ all: ["position", "velocity"] })], [2, 3, 8]);
+  assertEquals([...buffer.query({ all: ["position", "velocity"], none: ["frozen"] })], [2, 8]);
+  assertEquals([...buffer.query({ any: ["frozen", "visible"] })], [1, 3, 13]);
+  assertEquals([...buffer.query({ all: ["position"], any: ["velocity", "visible"] })], [1, 2, 3, 8]);
+
+  // Dense partitions hold every entity below maxEntitiesPerPartition
+  assertEquals(buffer.query({ all: ["health"], none: ["position"] }).count(), 64 - 5);
+  assertEquals([...buffer.query({ all: ["health", "velocity"] })], [2, 3, 8, 13]);
+
+  // Partition instances and specs are accepted
+  const partition = [...buffer.partitions()].find((p) => p.name === "frozen")!;
+  assertEquals(partition instanceof Partition, true);
+  assertEquals([...buffer.query({ all: [partition, { name: "position" } as any] })], [3]);
+
+  const query = buffer.query({ all: ["position"], none: ["frozen"] });
+  assertEquals(query.has(1), true);
+  assertEquals(query.has(3), false);
+  assertEquals(query.has(4), false);
+});
+
+Deno.test("Query - Cached results are invalidated on membership changes", () => {
+  const { buffer, position, velocity, frozen } = createWorld();
+  position.set("x", 1, 1);
+  position.set("x", 2, 2);
+  velocity.set("x", 2, 2);
+
+  const query = buffer.query({ all: ["position", "velocity"], none: ["frozen"] });
+  const first = query.entities();
+  assertEquals(first, [2]);
+  assertEquals(query.entities(), first); // cached
+
+  velocity.set("x", 1, 1);
+  assertEquals(query.entities(), [1, 2]);
+
+  frozen.add(2);
+  assertEquals(query.entities(), [1]);
+
+  delete position.partitions.x[1];
+  assertEquals(query.entities(), []);
+
+  frozen.clear();
+  assertEquals(query.entities(), [2]);
+
+  // Value writes do not change membership
+  const cached = query.entities();
+  position.set("y", 2, 5);
+  assertEquals(query.entities(), cached);
+});
+
+Deno.test("Query - Error conditions", () => {
+  const { buffer } = createWorld();
+  assertThrows(() => buffer.query(null as any), TypeError, "Query must be an object");
+  assertThrows(() => buffer.query({ all: "position" as any }), TypeError, 'Query clause "all" must be an array');
+  assertThrows(() => buffer.query({}), TypeError, "Query must reference at least one partition");
+  assertThrows(() => buffer.query({ all: ["missing"] }), Error, "Partition missing does not exist");
+
+  const query = buffer.query({ all: ["position"], none: ["frozen"] });
+  buffer.removePartition("frozen");
+  assertThrows(() => query.entities(), Error, "Partition frozen does not exist");
+
+  // Re-adding the partition makes the query usable again
+  const frozen = buffer.addPartition({ name: "frozen" });
+  buffer.getPartition<Vec2>("position")!.set("x", 4, 1);
+  frozen.add(4);
+  assertEquals(query.entities(), []);
+});
@@ -0,0 +1,98 @@
+// deno-lint-ignore-file no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { SchemaParseError } from "../src/Errors.ts";
+import { bool, string, uint } from "../src/Schema.ts";
+import { parseSchema, schemaFromJSON, schemaToJSON } from "../src/SchemaParser.ts";
+
+Deno.test("SchemaParser - parseSchema DSL", () => {
+  assertEquals(parseSchema("x: f32, y: f32, hp: u16 = 100"), {
+    x: Float32Array,
+    y: Float32Array,
+    hp: [Uint16Array, 100],
+  });
+
+  const schema = parseSchema(`
+    # transform
+    matrix: f32[16]
+    layer: Int8Array = -3, id: u64 = 18446744073709551615
+    visible: bool = true
+    flags: uint(3) = 0b101
+    title: string
+  `);
+  assertEquals(schema, {
+    matrix: { type: Float32Array, length: 16 },
+    layer: [Int8Array, -3],
+    id: [BigUint64Array, 18446744073709551615n],
+    visible: { ...bool, initialValue: 1 },
+    flags: uint(3, 5),
+    title: string,
+  });
+});
+
+Deno.test("SchemaParser - parseSchema reports line and column", () => {
+  const error = assertThrows(
+    () => parseSchema("x: f32,\n  y: f33"),
+    SchemaParseError,
+    '"f33" is not a valid type',
+  ) as SchemaParseError;
+  assertEquals([error.line, error.column, error.property], [2, 6, "y"]);
+  assertEquals(error.code, "SCHEMA_PARSE");
+  assertEquals(error.message, '"f33" is not a valid type at line 2, column 6');
+
+  assertThrows(() => parseSchema("x: f32, x: f32"), SchemaParseError, 'Duplicate property "x" at line 1, column 9');
+  assertThrows(() => parseSchema("constructor: f32"), SchemaParseError, 'Invalid property name "constructor"');
+  assertThrows(() => parseSchema("x f32"), SchemaParseError, 'Expected ":" at line 1, column 3');
+  assertThrows(() => parseSchema("x: u8 = 256"), SchemaParseError, "Invalid default value 256 for Uint8Array");
+  assertThrows(() => parseSchema("x: u64 = 1.5"), SchemaParseError, "Invalid default value 1.5");
+  assertThrows(() => parseSchema("x: f32[4] = 1"), SchemaParseError, "Vector properties cannot have a default value");
+  assertThrows(() => parseSchema("x: uint(33)"), SchemaParseError, "Bitfield width must be an integer in [1, 32]");
+  assertThrows(() => parseSchema("x: f32 y: f32"), SchemaParseError, 'Expected "," or a new line');
+  assertThrows(() => parseSchema("  # nothing\n"), SchemaParseError, "at least one property");
+});
+
+Deno.test("SchemaParser - schemaFromJSON and schemaToJSON", () => {
+  const json = {
+    x: "Float32",
+    hp: ["Uint16", 100],
+    id: ["BigInt64", "-1"],
+    matrix: { type: "Float32", length: 16 },
+    visible: ["bool", true],
+    layer: "uint(3)",
+    title: "string",
+  } as const;
+  const schema = schemaFromJSON(json as unknown as Parameters<typeof schemaFromJSON>[0]);
+  assertEquals(schema, {
+    x: Float32Array,
+    hp: [Uint16Array, 100],
+    id: [BigInt64Array, -1n],
+    matrix: { type: Float32Array, length: 16 },
+    visible: { ...bool, initialValue: 1 },
+    layer: uint(3),
+    title: string,
+  });
+  assertEquals(schemaToJSON(schema), json);
+  assertEquals(schemaFromJSON(JSON.stringify(schemaToJSON(schema))), schema);
+  assertEquals(schemaFromJSON({ a: "f32", b: "Float64Array" }), { a: Float32Array, b: Float64Array });
+  assertThrows(() => schemaToJSON({} as never), TypeError);
+});
+
+Deno.test("SchemaParser - schemaFromJSON errors", () => {
+  const text = '{\n  "x": "Float32",\n  "hp": ["Uint16", 70000]\n}';
+  const error = assertThrows(
+    () => schemaFromJSON(text),
+    SchemaParseError,
+    "Invalid default value 70000",
+  ) as SchemaParseError;
+  assertEquals([error.line, error.column, error.property], [3, 3, "hp"]);
+
+  assertThrows(() => schemaFromJSON("{"), SchemaParseError, "Invalid JSON");
+  assertThrows(() => schemaFromJSON("[]"), SchemaParseError, "must be an object");
+  assertThrows(() => schemaFromJSON({}), SchemaParseError, "at least one property");
+  assertThrows(() => schemaFromJSON({ x: "Vec3" }), SchemaParseError, '"Vec3" is not a valid type in type "Vec3"');
+  assertThrows(() => schemaFromJSON({ x: "f32 f32" }), SchemaParseError, "Unexpected");
+  assertThrows(() => schemaFromJSON({ x: { type: "bool", length: 2 } }), SchemaParseError, "not a TypedArray type");
+  assertThrows(() => schemaFromJSON({ x: { type: "f32", length: 0 } }), SchemaParseError, "Invalid vector length");
+  assertThrows(() => schemaFromJSON({ "1x": "f32" }), SchemaParseError, 'Invalid property name "1x"');
+});
@@ -2,13 +2,14 @@
 /// <reference lib="deno.ns" />
 
 import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
-import { getEntitySize, isSchema } from "../src/Schema.ts";
+import { bool, getEntitySize, isSchema, schemaHash, string, uint } from "../src/Schema.ts";
 
 Deno.test("Schema - isSchema function", () => {
   // Valid schemas
   assertEquals(isSchema({ x: Float32Array }), true);
   assertEquals(isSchema({ x: Float32Array, y: Float32Array }), true);
   assertEquals(isSchema({ value: [Int32Array, 42] }), true);
+  assertEquals(isSchema({ id: BigUint64Array, time: [BigInt64Array, -1n] }), true);
   assertEquals(isSchema(null), true);
 
   // Invalid schemas
@@ -19,6 +20,13 @@ Deno.test("Schema - isSchema function", () => {
   assertEquals(isSchema([]), false);
   assertEquals(isSchema({ invalidProp: {} }), false);
   assertEquals(isSchema({ "123invalid": Float32Array }), false);
+  assertEquals(isSchema({ id: [BigInt64Array, 1] }), false);
+  assertEquals(isSchema({ matrix: { type: Float32Array, length: 16 } }), true);
+  assertEquals(isSchema({ matrix: { type: Float32Array, length: 0 } }), false);
+  assertEquals(isSchema({ matrix: { type: Array, length: 4 } }), false);
+  assertEquals(isSchema({ visible: bool, layer: uint(3, 7) }), true);
+  assertEquals(isSchema({ layer: { kind: "uint", bits: 33, initialValue: 0 } }), false);
+  assertEquals(isSchema({ visible: { kind: "bool", bits: 2, initialValue: 0 } }), false);
 });
 
 Deno.test("Schema - getEntitySize", () => {
@@ -45,6 +53,26 @@ Deno.test("Schema - getEntitySize", () => {
   const initialValueSize = getEntitySize(initialValueSchema);
   assertEquals(initialValueSize, 16);
 
+  // Vector properties take `length` elements per entity
+  assertEquals(getEntitySize({ matrix: { type: Float32Array, length: 16 } }), 64);
+  assertEquals(getEntitySize({ rgb: { type: Uint8Array, length: 3 }, id: Uint32Array }), 16);
+
+  // Bitfields share packed 32-bit words
+  assertEquals(getEntitySize({ visible: bool, layer: uint(3), speed: Float32Array }), 16);
+  assertEquals(getEntitySize({ visible: bool, id: uint(32) }), 8);
+
+  // Custom alignment pads every property, or only the named ones
+  assertEquals(getEntitySize({ x: Float32Array, id: Uint8Array }, 32), 64);
+  type Sample = { id: number; x: number };
+  assertEquals(getEntitySize<Sample>({ id: Uint8Array, x: Float32Array }, { x: 32 }), 64);
+  assertEquals(getEntitySize<Sample>({ x: Float32Array, id: Uint8Array }, { x: 32 }), 32);
+
+  // Packed layouts sort properties by alignment and drop the 8-byte minimum
+  assertEquals(getEntitySize({ a: Uint8Array, b: Float64Array, c: Uint16Array }, null, "packed"), 16);
+  assertEquals(getEntitySize({ a: Uint8Array, b: Float64Array, c: Uint16Array }), 24);
+  assertThrows(() => getEntitySize({ x: Float32Array }, 12), TypeError, "Invalid alignment");
+  assertThrows(() => getEntitySize({ x: Float32Array }, { y: 16 } as any), TypeError, "Invalid alignment");
+
   // Empty schema - should throw TypeError
   const emptySchema = {};
   assertThrows(
@@ -65,3 +93,33 @@ Deno.test("Schema - getEntitySize", () => {
     "Invalid schema",
   );
 });
+
+Deno.test("Schema - bitfield properties", () => {
+  assertEquals(bool, { kind: "bool", bits: 1, initialValue: 0 });
+  assertEquals(uint(3, 5), { kind: "uint", bits: 3, initialValue: 5 });
+  assertThrows(() => uint(0), RangeError, "Bitfield width must be an integer in [1, 32], got 0");
+  assertThrows(() => uint(33), RangeError);
+  assertThrows(() => uint(3, 8), RangeError, "Initial value 8 does not fit in a 3-bit field");
+  assertThrows(() => uint(3, -1), RangeError);
+});
+
+Deno.test("Schema - schemaHash", () => {
+  const hash = schemaHash({ x: Float32Array, y: Float32Array });
+  assertEquals(hash, schemaHash({ x: [Float32Array, 0], y: Float32Array }));
+  assertEquals(/^[0-9a-f]{16}$/.test(hash), true);
+
+  // Order, names, types and defaults all change the hash
+  const variants = [
+    { y: Float32Array, x: Float32Array },
+    { x: Float32Array, z: Float32Array },
+    { x: Float64Array, y: Float32Array },
+    { x: [Float32Array, 1], y: Float32Array },
+    { x: { type: Float32Array, length: 2 }, y: Float32Array },
+  ];
+  for (const schema of variants) assertEquals(schemaHash(schema as any) === hash, false);
+
+  assertEquals(schemaHash({ id: [BigInt64Array, 1n] }) === schemaHash({ id: [Int32Array, 1] }), false);
+  assertEquals(schemaHash({ layer: uint(3) }) === schemaHash({ layer: uint(4) }), false);
+  assertEquals(schemaHash({ visible: bool, title: string }) === schemaHash({ visible: uint(1), title: string }), false);
+  assertThrows(() => schemaHash({} as any), TypeError);
+});
@@ -0,0 +1,112 @@
+// deno-lint-ignore-file no-explicit-any no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import type { PartitionedMemory } from "../src/PartitionedMemory.ts";
+import { SharedPartitionedBuffer } from "../src/SharedPartitionedBuffer.ts";
+
+type Vec2 = { x: number; y: number };
+
+Deno.test("SharedPartitionedBuffer - Partitions are views over shared memory", () => {
+  const buffer = new SharedPartitionedBuffer(1024, 16);
+  assertEquals(buffer.memory instanceof SharedArrayBuffer, true);
+  assertEquals(buffer.byteLength, 1024);
+
+  const position = buffer.addPartition<Vec2>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+  assertEquals(position.partitions.x.buffer, buffer.memory);
+  assertEquals(buffer.hasPartition("position"), true);
+  assertEquals(buffer.getFreeSpace(), 1024 - buffer.getOffset());
+});
+
+Deno.test("SharedPartitionedBuffer - shares the partition API with PartitionedBuffer", () => {
+  const describe = (memory: PartitionedMemory) => {
+    memory.addPartition<Vec2>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+    memory.addPartition({ name: "tag" });
+    return [[...memory.partitionNames()], memory.getLayout(), memory.layoutHash(), memory.byteLength];
+  };
+  const buffer = new PartitionedBuffer(256, 8);
+  assertEquals(buffer instanceof ArrayBuffer, true);
+  assertEquals(describe(buffer), describe(new SharedPartitionedBuffer(256, 8)));
+});
+
+Deno.test("SharedPartitionedBuffer - layoutHash matches the reconstructed buffer", () => {
+  const buffer = new SharedPartitionedBuffer(1024, 16);
+  buffer.addPartition<Vec2>({ name: "position", schema: { x: Float32Array, y: [Float32Array, 1] } });
+  buffer.addPartition({ name: "isAlive" });
+  const copy = SharedPartitionedBuffer.fromLayout(buffer.memory, buffer.getLayout());
+  assertEquals(copy.layoutHash(), buffer.layoutHash());
+  assertEquals(new SharedPartitionedBuffer(1024, 16).layoutHash() === buffer.layoutHash(), false);
+});
+
+Deno.test("SharedPartitionedBuffer - fromLayout reconstructs identical handles", () => {
+  const buffer = new SharedPartitionedBuffer(1024, 16);
+  const position = buffer.addPartition<Vec2>({
+    name: "position",
+    schema: { x: Float32Array, y: [Float32Array, 1] },
+  });
+  buffer.addPartition({ name: "isAlive" });
+  const health = buffer.addPartition<{ hp: number }>({
+    name: "health",
+    schema: { hp: Uint16Array },
+    maxOwners: 4,
+    maxEntityId: 100,
+  });
+  position.set("x", 3, 42);
+
+  // Layouts survive structured cloning, as when posted to a worker
+  const layout = structuredClone(buffer.getLayout());
+  const attached = SharedPartitionedBuffer.fromLayout(buffer.memory, layout);
+
+  const attachedPosition = attached.getPartition<Vec2>("position")!;
+  assertEquals(attachedPosition.byteOffset, position.byteOffset);
+  assertEquals(attachedPosition.byteLength, position.byteLength);
+  assertEquals(attachedPosition.partitions.x.byteOffset, position.partitions.x.byteOffset);
+  assertEquals(attachedPosition.partitions.y.length, position.partitions.y.length);
+
+  // Existing data is preserved, and writes are visible both ways
+  assertEquals(attachedPosition.get("x", 3), 42);
+  assertEquals(attachedPosition.get("y", 3), 1);
+  attachedPosition.set("y", 5, 7);
+  assertEquals(position.get("y", 5), 7);
+
+  // Tags and sparse partitions keep their kind
+  assertEquals(attached.hasPartition("isAlive"), true);
+  assertEquals(attached.getPartition("isAlive")!.byteOffset, buffer.getPartition("isAlive")!.byteOffset);
+  const attachedHealth = attached.getPartition<{ hp: number }>("health")!;
+  assertEquals(attachedHealth.partitions.hp.byteOffset, health.partitions.hp.byteOffset);
+  attachedHealth.set("hp", 99, 10);
+  assertEquals(attachedHealth.get("hp", 99), 10);
+
+  // Sparse dense arrays are shared, but each thread keeps its own entity mapping
+  assertEquals(attachedHealth.partitions.hp.buffer, buffer.memory);
+  assertEquals(health.getEntity(99), undefined);
+
+  assertEquals(attached.getOffset(), buffer.getOffset());
+  assertEquals(attached.getLayout(), buffer.getLayout());
+});
+
+Deno.test("SharedPartitionedBuffer - fromLayout validation", () => {
+  const buffer = new SharedPartitionedBuffer(256, 16);
+  buffer.addPartition<{ value: number }>({ name: "value", schema: { value: Float64Array } });
+  const layout = buffer.getLayout();
+
+  assertThrows(
+    () => SharedPartitionedBuffer.fromLayout(new SharedArrayBuffer(64), layout),
+    TypeError,
+    "outside the buffer",
+  );
+  assertThrows(
+    () => SharedPartitionedBuffer.fromLayout(buffer.memory, { ...layout, partitions: null } as any),
+    TypeError,
+    "Invalid partition layout",
+  );
+
+  const badType = structuredClone(layout);
+  badType.partitions[0]!.properties![0]!.type = "Foo";
+  assertThrows(
+    () => SharedPartitionedBuffer.fromLayout(buffer.memory, badType),
+    TypeError,
+    "Unknown type Foo",
+  );
+});
@@ -2,7 +2,7 @@
 /// <reference lib="deno.ns" />
 
 import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
-import { sparseFacade } from "../src/SparseFacade.ts";
+import { sparseFacade, SparseIndex } from "../src/SparseFacade.ts";
 
 Deno.test("SparseFacade - Disposal mechanism", () => {
   const dense = new Int32Array([1, 2, 3, 4]);
@@ -339,3 +339,90 @@ Deno.test("SparseFacade - Compare Map vs Zero-allocation behavior", () => {
     "out of bounds",
   );
 });
+
+Deno.test("SparseFacade - BigInt64Array storage", () => {
+  const dense = new BigInt64Array(4);
+  const sparse = sparseFacade(dense, 100);
+
+  sparse[42] = -(2n ** 63n);
+  sparse.setEntity(7, 123n);
+  assertEquals(sparse[42], -(2n ** 63n));
+  assertEquals(sparse.getEntity(7), 123n);
+
+  delete sparse[42];
+  assertEquals(sparse[42], undefined);
+  assertEquals(dense.includes(-(2n ** 63n)), false);
+
+  sparse.clearSparse();
+  assertEquals([...dense], [0n, 0n, 0n, 0n]);
+});
+
+Deno.test("SparseIndex - copy, swap and move entities", () => {
+  for (const maxEntityId of [undefined, 99]) {
+    const index = new SparseIndex(3, { maxEntityId });
+    const dense = new Float32Array(3);
+    const vectors = new Float32Array(6);
+    const facade = sparseFacade(dense, index);
+    index.registerDenseArray(vectors, { stride: 2 });
+
+    facade[10] = 1;
+    vectors.set([2, 3], index.get(10)! * 2);
+    index.copy(10, 20);
+    assertEquals([facade[20], ...vectors.subarray(index.get(20)! * 2, index.get(20)! * 2 + 2)], [1, 2, 3]);
+    facade[20] = 5;
+    assertEquals(facade[10], 1);
+
+    // Swapping exchanges slots without moving values
+    const slot = index.get(10);
+    index.swap(10, 20);
+    assertEquals([facade[10], facade[20], index.get(20)], [5, 1, slot]);
+    index.swap(10, 30);
+    assertEquals([facade[10], facade[30], index.size], [undefined, 5, 2]);
+
+    // Moving vacates the source and replaces the target
+    index.move(30, 20);
+    assertEquals([facade[20], facade[30], index.size], [5, undefined, 1]);
+    index.copy(40, 20);
+    assertEquals([facade[20], index.size], [undefined, 0]);
+    assertThrows(() => index.copy(-1, 2), RangeError);
+  }
+  assertThrows(() => new SparseIndex(2, { maxEntityId: 9 }).swap(1, 10), RangeError, "out of bounds");
+});
+
+Deno.test("SparseIndex - cleared slots reset to initial values", () => {
+  const index = new SparseIndex(2);
+  const dense = new Int16Array(2).fill(7);
+  const words = new Uint32Array([3, 1, 3, 1]);
+  const facade = sparseFacade(dense, index);
+  index.registerDenseArray(dense, { initial: [7] });
+  index.registerDenseArray(words, { stride: 2, initial: [3, 1] });
+
+  facade[10] = 4;
+  words.set([8, 8], index.get(10)! * 2);
+  assertEquals(index.reset(10), true);
+  assertEquals([facade[10], ...words.subarray(index.get(10)! * 2, index.get(10)! * 2 + 2)], [7, 3, 1]);
+  assertEquals(index.reset(11), false);
+
+  facade[10] = 5;
+  delete facade[10];
+  facade[12] = 6;
+  assertEquals([facade[12], dense[index.get(12)! === 0 ? 1 : 0]], [6, 7]);
+  index.clear();
+  assertEquals([...dense, ...words], [7, 7, 3, 1, 3, 1]);
+});
+
+Deno.test("SparseIndex - capacity, high-water mark and index memory", () => {
+  const fixed = new SparseIndex(4, { maxEntityId: 15 });
+  fixed.ensure(1);
+  fixed.ensure(2);
+  fixed.delete(1);
+  assertEquals([fixed.capacity, fixed.size, fixed.highWater], [4, 1, 2]);
+  assertEquals(fixed.indexByteLength, 16 * 4 + 4 * 4);
+  fixed.clear();
+  assertEquals(fixed.highWater, 2);
+
+  const dynamic = new SparseIndex(4);
+  assertEquals(dynamic.indexByteLength, 0);
+  dynamic.ensure(1000);
+  assertEquals(dynamic.indexByteLength > 0, true);
+});
@@ -0,0 +1,98 @@
+// deno-lint-ignore-file no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { string } from "../src/Schema.ts";
+import { SharedPartitionedBuffer } from "../src/SharedPartitionedBuffer.ts";
+import { StringTable } from "../src/StringTable.ts";
+
+Deno.test("StringTable - intern, release and handle reuse", () => {
+  const table = new StringTable();
+  assertEquals(table.intern(""), 0);
+  assertEquals(table.get(0), "");
+
+  const player = table.intern("player");
+  assertEquals(table.intern("player"), player);
+  assertEquals(table.refCount(player), 2);
+  assertEquals(table.handleOf("player"), player);
+  const enemy = table.intern("énemy 👾");
+  assertEquals(table.size, 2);
+
+  assertEquals(table.release(player), true);
+  assertEquals(table.get(player), "player");
+  assertEquals(table.release(player), true);
+  assertEquals(table.get(player), undefined);
+  assertEquals(table.handleOf("player"), undefined);
+  assertEquals(table.release(player), false);
+
+  assertEquals(table.retain(enemy), true);
+  assertEquals(table.refCount(enemy), 2);
+  table.release(enemy);
+  assertEquals(table.retain(999), false);
+
+  // Released handles are reused
+  assertEquals(table.intern("boss"), player);
+  assertEquals([...table.entries()], [[player, "boss", 1], [enemy, "énemy 👾", 1]]);
+  assertThrows(() => table.intern(1 as unknown as string), TypeError, "Expected a string");
+
+  const copy = new StringTable();
+  copy.load(table.entries());
+  assertEquals(copy.get(enemy), "énemy 👾");
+  assertThrows(() => copy.load([[1, "a", 1], [1, "b", 1]]), TypeError, "Invalid string table entry for handle 1");
+
+  table.clear();
+  assertEquals(table.size, 0);
+  assertEquals(table.intern("first"), 1);
+});
+
+Deno.test("StringTable - string schema properties", () => {
+  type Named = { title: string; asset: string };
+  const buffer = new PartitionedBuffer(1024, 16);
+  const named = buffer.addPartition<Named>({ name: "named", schema: { title: string, asset: string } });
+  assertEquals(named.get("title", 0), "");
+
+  named.set("title", 0, "hero");
+  named.set("title", 1, "hero");
+  named.set("asset", 1, "sprites/hero.png");
+  assertEquals(named.get("title", 1), "hero");
+  assertEquals(named.partitions.title[0], named.partitions.title[1]);
+  assertEquals(buffer.strings.refCount(named.partitions.title[0]!), 2);
+
+  // Overwriting releases the previous value
+  named.set("title", 0, "villain");
+  named.set("title", 1, "");
+  assertEquals(buffer.strings.handleOf("hero"), undefined);
+  assertThrows(() => named.set("title", 2, 5 as unknown as string), TypeError, "must be a string");
+  assertThrows(() => named.set("title", 16, "x"), RangeError, "out of bounds");
+
+  // Sparse entities release their strings when deleted
+  const label = buffer.addPartition<{ text: string }>({ name: "label", schema: { text: string }, maxOwners: 4 });
+  label.set("text", 500, "boss");
+  label.set("text", 501, "boss");
+  assertEquals(label.get("text", 500), "boss");
+  assertEquals(label.get("text", 502), undefined);
+  delete label.partitions.text[500];
+  assertEquals(buffer.strings.refCount(buffer.strings.handleOf("boss")!), 1);
+
+  // Strings survive a snapshot
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals(restored.getPartition<Named>("named")!.get("title", 0), "villain");
+  assertEquals(restored.getPartition<Named>("named")!.get("asset", 1), "sprites/hero.png");
+  assertEquals(restored.getPartition<{ text: string }>("label")!.get("text", 501), "boss");
+  assertEquals(restored.strings.size, buffer.strings.size);
+
+  // Removing a partition releases its strings, clearing the buffer empties the table
+  buffer.removePartition("label");
+  assertEquals(buffer.strings.handleOf("boss"), undefined);
+  buffer.removePartition("named");
+  assertEquals(buffer.strings.size, 0);
+  restored.clear();
+  assertEquals(restored.strings.size, 0);
+
+  assertThrows(
+    () => new SharedPartitionedBuffer(1024, 16).addPartition<{ s: string }>({ name: "s", schema: { s: string } }),
+    TypeError,
+    "String properties are not supported in shared memory",
+  );
+});
@@ -0,0 +1,65 @@
+// deno-lint-ignore-file no-import-prefix
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.9";
+import { PartitionedBuffer } from "../src/PartitionedBuffer.ts";
+import { getTagByteLength, TagStorage } from "../src/TagStorage.ts";
+
+Deno.test("TagStorage - add, remove, has and count", () => {
+  const tag = new TagStorage(new Uint32Array(3), 70);
+  assertEquals(tag.add(0), true);
+  assertEquals(tag.add(31), true);
+  assertEquals(tag.add(32), true);
+  assertEquals(tag.add(69), true);
+  assertEquals(tag.add(31), false);
+  assertEquals(tag.count(), 4);
+  assertEquals([...tag], [0, 31, 32, 69]);
+
+  assertEquals(tag.has(31), true);
+  assertEquals(tag.has(30), false);
+  assertEquals(tag.has(-1), false);
+  assertEquals(tag.has(70), false);
+  assertEquals(tag.has(1.5), false);
+
+  assertEquals(tag.remove(31), true);
+  assertEquals(tag.remove(31), false);
+  assertEquals(tag.remove(1000), false);
+  assertEquals([...tag], [0, 32, 69]);
+
+  tag.clear();
+  assertEquals(tag.count(), 0);
+  assertEquals([...tag], []);
+});
+
+Deno.test("TagStorage - Error conditions", () => {
+  const tag = new TagStorage(new Uint32Array(1), 8);
+  assertThrows(() => tag.add(1.5), TypeError, "Entity must be a safe integer");
+  assertThrows(() => tag.add(-1), RangeError, "out of bounds [0, 7]");
+  assertThrows(() => tag.add(8), RangeError, "out of bounds [0, 7]");
+  assertEquals(getTagByteLength(8), 4);
+  assertEquals(getTagByteLength(33), 8);
+});
+
+Deno.test("TagStorage - Lives inside the buffer", () => {
+  const buffer = new PartitionedBuffer(1024, 64);
+  buffer.addPartition<{ value: number }>({ name: "value", schema: { value: Uint8Array } });
+  const isAlive = buffer.addPartition({ name: "isAlive" });
+  assertEquals(isAlive.byteOffset, 64);
+  assertEquals(isAlive.bits.buffer, buffer);
+  assertEquals(isAlive.bits.byteOffset, 64);
+  assertEquals(isAlive.byteLength, getTagByteLength(64));
+  assertEquals(buffer.getOffset(), 72);
+
+  isAlive.add(5);
+  isAlive.add(63);
+  assertEquals(new Uint32Array(buffer, 64, 2)[1], 2 ** 31);
+
+  // Snapshots carry the bits
+  const restored = PartitionedBuffer.deserialize(buffer.serialize());
+  assertEquals([...restored.getPartition("isAlive")!], [5, 63]);
+
+  // Removing the tag zeroes its bits and releases its bytes
+  buffer.removePartition("isAlive");
+  assertEquals(new Uint32Array(buffer, 64, 2)[1], 0);
+  assertEquals(buffer.getOffset(), 64);
+});
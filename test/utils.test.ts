@@ -107,6 +107,21 @@ Deno.test("Utils - isValidTypedArrayValue", () => {
   assertEquals(isValidTypedArrayValue(Float64Array, -Infinity), false);
   assertEquals(isValidTypedArrayValue(Float64Array, NaN), false);
 
+  // Float16Array
+  assertEquals(isValidTypedArrayValue(Float16Array, 65504), true);
+  assertEquals(isValidTypedArrayValue(Float16Array, -65504), true);
+  assertEquals(isValidTypedArrayValue(Float16Array, 65505), false);
+  assertEquals(isValidTypedArrayValue(Float16Array, Infinity), false);
+
+  // BigInt64Array / BigUint64Array take bigints
+  assertEquals(isValidTypedArrayValue(BigInt64Array, -(2n ** 63n)), true);
+  assertEquals(isValidTypedArrayValue(BigInt64Array, 2n ** 63n - 1n), true);
+  assertEquals(isValidTypedArrayValue(BigInt64Array, 2n ** 63n), false);
+  assertEquals(isValidTypedArrayValue(BigUint64Array, 2n ** 64n - 1n), true);
+  assertEquals(isValidTypedArrayValue(BigUint64Array, -1n), false);
+  assertEquals(isValidTypedArrayValue(BigInt64Array, 1), false);
+  assertEquals(isValidTypedArrayValue(Float64Array, 1n), false);
+
   // Invalid inputs
   assertEquals(isValidTypedArrayValue(Int8Array, NaN), false);
   assertEquals(isValidTypedArrayValue(null as any, 0), false);